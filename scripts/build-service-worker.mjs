@@ -0,0 +1,46 @@
+// Writes out/sw.js after `next build`: the template in service-worker.js plus
+// the list of files to precache and a version derived from their contents, so
+// every deploy that changes the app installs a fresh cache.
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const out = join(root, "out");
+const coreDir = "ffmpeg-core";
+
+if (!existsSync(out)) {
+  console.error(`${out} not found. Run "next build" first.`);
+  process.exit(1);
+}
+
+function listFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+const toURL = (path) => "/" + relative(out, path).split(sep).join("/");
+
+const files = listFiles(out).filter((path) => !path.endsWith(".map") && toURL(path) !== "/sw.js");
+const coreFiles = files.filter((path) => toURL(path).startsWith(`/${coreDir}/`));
+const shellFiles = files.filter((path) => !coreFiles.includes(path));
+
+const hash = createHash("sha256");
+for (const path of shellFiles) {
+  hash.update(toURL(path)).update(readFileSync(path));
+}
+const version = hash.digest("hex").slice(0, 12);
+const coreVersion = JSON.parse(readFileSync(join(root, "node_modules", "@ffmpeg", "core", "package.json"), "utf8")).version;
+
+const template = readFileSync(join(root, "scripts", "service-worker.js"), "utf8");
+const worker = template
+  .replace("__VERSION__", version)
+  .replace("__SHELL_FILES__", JSON.stringify(["/", ...shellFiles.map(toURL)], null, 2))
+  .replace("__CORE_CACHE__", `ffmpeg-core-${coreVersion}`)
+  .replace("__CORE_FILES__", JSON.stringify(coreFiles.map(toURL), null, 2));
+
+writeFileSync(join(out, "sw.js"), worker);
+console.log(`Wrote service worker ${version} precaching ${shellFiles.length + coreFiles.length} files`);
@@ -0,0 +1,21 @@
+// Copies the FFmpeg core (JS + WASM) from node_modules into public/ so the
+// static export serves it from our own origin instead of a CDN.
+import { copyFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const source = join(root, "node_modules", "@ffmpeg", "core", "dist", "esm");
+const target = join(root, "public", "ffmpeg-core");
+const files = ["ffmpeg-core.js", "ffmpeg-core.wasm"];
+
+if (!existsSync(source)) {
+  console.error(`@ffmpeg/core not found at ${source}. Run "npm install" first.`);
+  process.exit(1);
+}
+
+mkdirSync(target, { recursive: true });
+for (const file of files) {
+  copyFileSync(join(source, file), join(target, file));
+}
+console.log(`Copied FFmpeg core to ${target}`);
@@ -0,0 +1,56 @@
+// Service worker template. scripts/build-service-worker.mjs fills in the
+// placeholders after `next build` and writes the result to out/sw.js.
+const VERSION = "__VERSION__";
+const SHELL_CACHE = `shell-${VERSION}`;
+const SHELL_FILES = __SHELL_FILES__;
+// The core changes far less often than the app, so it's cached per core
+// version and survives app updates instead of being downloaded again.
+const CORE_CACHE = "__CORE_CACHE__";
+const CORE_FILES = __CORE_FILES__;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(Promise.all([
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_FILES)),
+    caches.open(CORE_CACHE).then(async (cache) => {
+      for (const file of CORE_FILES) {
+        if (!(await cache.match(file))) {
+          await cache.add(file);
+        }
+      }
+    }),
+  ]));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, CORE_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function respond(request) {
+  const cached = await caches.match(request, { ignoreSearch: request.mode === "navigate" });
+  if (cached) {
+    return cached;
+  }
+  try {
+    return await fetch(request);
+  } catch (err) {
+    // Offline: any page of this single-page app can be served by the shell.
+    if (request.mode === "navigate") {
+      const shell = await caches.match("/");
+      if (shell) return shell;
+    }
+    throw err;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+  event.respondWith(respond(request));
+});
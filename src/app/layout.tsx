@@ -1,9 +1,20 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import "./globals.css";
 
 export const metadata: Metadata = {
   title: "Video to Audio Converter - Extract Audio from Video",
   description: "Free online video to audio converter. Extract audio from MP4, AVI, MOV, MKV files. 100% private - all processing happens in your browser.",
+  appleWebApp: {
+    capable: true,
+    title: "Audio Converter",
+  },
+  icons: {
+    apple: "/icons/icon-192.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
 };
 
 export default function RootLayout({
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+export const dynamic = "force-static";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Video to Audio Converter",
+    short_name: "Audio Converter",
+    description: "Extract audio from video files. Works offline once installed; files never leave your device.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#f9fafb",
+    theme_color: "#2563eb",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
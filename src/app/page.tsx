@@ -8,7 +8,8 @@ export default function Home() {
           Video to Audio Converter
         </h1>
         <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
-          Extract audio from any video file. Fast, free, and 100% private -
+          Extract audio from any video file or convert between audio formats.
+          Fast, free, and 100% private -
           all processing happens directly in your browser.
         </p>
       </div>
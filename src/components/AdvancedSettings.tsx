@@ -0,0 +1,169 @@
+import { useState } from "react";
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+
+interface AdvancedSettingsProps {
+  format: AudioFormat;
+  settings: EncodingSettings;
+  errors: string[];
+  disabled?: boolean;
+  onChange: (settings: EncodingSettings) => void;
+}
+
+const selectClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200 disabled:opacity-50";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+function channelLabel(channels: number): string {
+  if (channels === 1) return "Mono";
+  if (channels === 2) return "Stereo";
+  return `${channels} channels`;
+}
+
+export default function AdvancedSettings({ format, settings, errors, disabled, onChange }: AdvancedSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const caps = format.capabilities;
+  if (!caps) return null;
+
+  const update = (changes: Partial<EncodingSettings>) => onChange({ ...settings, ...changes });
+  const channelOptions = Array.from({ length: caps.maxChannels }, (_, i) => i + 1).filter(n => n <= 2 || n === 6 || n === 8);
+  const vbr = caps.vbr;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Advanced {format.name} settings</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {caps.rateControl.length > 1 && (
+              <div>
+                <label className={labelClass}>Mode</label>
+                <select
+                  className={selectClass}
+                  value={settings.rateControl}
+                  disabled={disabled}
+                  onChange={(e) => update({ rateControl: e.target.value as EncodingSettings["rateControl"] })}
+                >
+                  {caps.rateControl.map(mode => (
+                    <option key={mode} value={mode}>
+                      {mode === "vbr" ? "Variable bitrate (VBR)" : "Constant bitrate (CBR)"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {caps.rateControl.length > 0 && (settings.rateControl === "cbr" || !vbr) && caps.bitrates && (
+              <div>
+                <label className={labelClass}>{settings.rateControl === "vbr" ? "Target bitrate" : "Bitrate"}</label>
+                <select
+                  className={selectClass}
+                  value={settings.bitrate}
+                  disabled={disabled}
+                  onChange={(e) => update({ bitrate: Number(e.target.value) })}
+                >
+                  {caps.bitrates.map(bitrate => (
+                    <option key={bitrate} value={bitrate}>{bitrate} kb/s</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {caps.rateControl.length > 0 && settings.rateControl === "vbr" && vbr && (
+              <div>
+                <label className={labelClass}>
+                  Quality ({vbr.lowerIsBetter ? `${vbr.min} = best` : `${vbr.max} = best`})
+                </label>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={vbr.min}
+                  max={vbr.max}
+                  step={1}
+                  value={settings.vbrQuality}
+                  disabled={disabled}
+                  onChange={(e) => update({ vbrQuality: Number(e.target.value) })}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">Level {settings.vbrQuality}</p>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Sample rate</label>
+              <select
+                className={selectClass}
+                value={settings.sampleRate ?? ""}
+                disabled={disabled}
+                onChange={(e) => update({ sampleRate: e.target.value ? Number(e.target.value) : null })}
+              >
+                <option value="">Same as source</option>
+                {caps.sampleRates.map(rate => (
+                  <option key={rate} value={rate}>{(rate / 1000).toString()} kHz</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Channels</label>
+              <select
+                className={selectClass}
+                value={settings.channels ?? ""}
+                disabled={disabled}
+                onChange={(e) => update({ channels: e.target.value ? Number(e.target.value) : null })}
+              >
+                <option value="">Same as source</option>
+                {channelOptions.map(channels => (
+                  <option key={channels} value={channels}>{channelLabel(channels)}</option>
+                ))}
+              </select>
+            </div>
+
+            {caps.bitDepths && (
+              <div>
+                <label className={labelClass}>Bit depth</label>
+                <select
+                  className={selectClass}
+                  value={settings.bitDepth ?? ""}
+                  disabled={disabled}
+                  onChange={(e) => update({ bitDepth: Number(e.target.value) })}
+                >
+                  {caps.bitDepths.map(depth => (
+                    <option key={depth} value={depth}>{depth}-bit</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {format.defaults && (
+            <button
+              type="button"
+              onClick={() => onChange(format.defaults!)}
+              disabled={disabled}
+              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
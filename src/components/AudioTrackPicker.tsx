@@ -0,0 +1,53 @@
+import { audioTrackLabel, type AudioStream } from "@/lib/mediaInfo";
+
+interface AudioTrackPickerProps {
+  streams: AudioStream[];
+  value: number | "all";
+  onChange: (value: number | "all") => void;
+}
+
+export default function AudioTrackPicker({ streams, value, onChange }: AudioTrackPickerProps) {
+  const optionClass = (selected: boolean) =>
+    `flex items-center gap-3 px-4 py-2.5 rounded-lg cursor-pointer transition-all ${
+      selected
+        ? "bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700"
+        : "bg-gray-50 dark:bg-gray-700 border border-transparent hover:bg-gray-100 dark:hover:bg-gray-600"
+    }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Audio Track
+      </label>
+      <div className="space-y-2">
+        {streams.map((stream, position) => (
+          <label key={stream.index} className={optionClass(value === stream.index)}>
+            <input
+              type="radio"
+              name="audio-track"
+              checked={value === stream.index}
+              onChange={() => onChange(stream.index)}
+              className="text-blue-600"
+            />
+            <span className="text-sm text-gray-800 dark:text-gray-200">
+              {audioTrackLabel(stream, position)}
+              {stream.isDefault && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(default)</span>}
+            </span>
+          </label>
+        ))}
+        <label className={optionClass(value === "all")}>
+          <input
+            type="radio"
+            name="audio-track"
+            checked={value === "all"}
+            onChange={() => onChange("all")}
+            className="text-blue-600"
+          />
+          <span className="text-sm text-gray-800 dark:text-gray-200">
+            Export every track as its own file ({streams.length} files)
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
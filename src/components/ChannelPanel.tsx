@@ -0,0 +1,93 @@
+import { useState } from "react";
+import {
+  availableChannelModes,
+  channelLabel,
+  describeChannels,
+  type ChannelMode,
+  type ChannelSettings,
+} from "@/lib/channels";
+
+interface ChannelPanelProps {
+  settings: ChannelSettings;
+  /** Channels of the selected track, as named by `channelNames`. */
+  names: string[];
+  layout?: string;
+  errors: string[];
+  onChange: (settings: ChannelSettings) => void;
+}
+
+const selectClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+
+const MODE_OPTIONS: Record<ChannelMode, { label: string; description: string }> = {
+  keep: { label: "Keep all channels", description: "Leave the channels as they are." },
+  stereo: { label: "Downmix to stereo", description: "Center and surrounds folded in at -3 dB, LFE left out." },
+  mono: { label: "Downmix to mono", description: "Every channel mixed into one." },
+  split: { label: "Split into mono files", description: "One file per channel, e.g. one per microphone." },
+  single: { label: "Keep one channel", description: "Just one channel as a mono file." },
+  swap: { label: "Swap left and right", description: "For recordings with the channels reversed." },
+};
+
+export default function ChannelPanel({ settings, names, layout, errors, onChange }: ChannelPanelProps) {
+  const [open, setOpen] = useState(false);
+  const modes = availableChannelModes(names);
+  const summary = describeChannels(settings);
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Channels{layout && ` (${layout})`}{summary && ` • ${summary}`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-2">
+          {modes.map(mode => (
+            <label key={mode} className="flex items-start gap-3 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="channel-mode"
+                checked={settings.mode === mode}
+                onChange={() => onChange({
+                  mode,
+                  channel: names.includes(settings.channel) ? settings.channel : names[0] ?? settings.channel,
+                })}
+                className="mt-0.5 text-blue-600"
+              />
+              <span>
+                <span className="block font-medium text-gray-800 dark:text-gray-200">{MODE_OPTIONS[mode].label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{MODE_OPTIONS[mode].description}</span>
+              </span>
+            </label>
+          ))}
+
+          {settings.mode === "single" && (
+            <select
+              className={selectClass}
+              value={settings.channel}
+              onChange={(e) => onChange({ ...settings, channel: e.target.value })}
+            >
+              {names.map(name => (
+                <option key={name} value={name}>{channelLabel(name, names)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { getFilterDefinition, type FilterStep } from "@/lib/filters";
+
+interface FilterChainPanelProps {
+  chain: FilterStep[];
+  errors: string[];
+  onChange: (chain: FilterStep[]) => void;
+  previewSeconds: number;
+  previewUrl: string | null;
+  previewLoading: boolean;
+  previewError: string | null;
+  onPreview: () => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+const moveClass = "px-1.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30";
+
+export default function FilterChainPanel({
+  chain,
+  errors,
+  onChange,
+  previewSeconds,
+  previewUrl,
+  previewLoading,
+  previewError,
+  onPreview,
+}: FilterChainPanelProps) {
+  const [open, setOpen] = useState(false);
+  const activeCount = chain.filter(step => step.enabled).length;
+
+  const updateStep = (position: number, changes: Partial<FilterStep>) =>
+    onChange(chain.map((step, i) => (i === position ? { ...step, ...changes } : step)));
+
+  const moveStep = (position: number, offset: -1 | 1) => {
+    const next = [...chain];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Audio filters {activeCount > 0 && `(${activeCount} on)`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Filters run top to bottom. Use the arrows to reorder them.</p>
+
+          <ul className="space-y-2">
+            {chain.map((step, position) => {
+              const definition = getFilterDefinition(step.id);
+              return (
+                <li key={step.id} className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={step.enabled}
+                        onChange={(e) => updateStep(position, { enabled: e.target.checked })}
+                        className="rounded"
+                      />
+                      {definition.name}
+                    </label>
+                    <div className="flex">
+                      <button
+                        type="button"
+                        aria-label={`Move ${definition.name} up`}
+                        disabled={position === 0}
+                        onClick={() => moveStep(position, -1)}
+                        className={moveClass}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        aria-label={`Move ${definition.name} down`}
+                        disabled={position === chain.length - 1}
+                        onClick={() => moveStep(position, 1)}
+                        className={moveClass}
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  </div>
+
+                  {step.enabled && (
+                    <div className="grid grid-cols-2 gap-3 mt-2">
+                      {definition.params.map(param => (
+                        <div key={param.key}>
+                          <label className={labelClass}>{param.label} ({param.unit})</label>
+                          <input
+                            type="number"
+                            min={param.min}
+                            max={param.max}
+                            step={param.step}
+                            className={inputClass}
+                            value={step.values[param.key]}
+                            onChange={(e) => updateStep(position, {
+                              values: { ...step.values, [param.key]: Number(e.target.value) },
+                            })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center gap-4 text-sm">
+            <button
+              type="button"
+              disabled={previewLoading || activeCount === 0 || errors.length > 0}
+              onClick={onPreview}
+              className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              Preview {previewSeconds} s
+            </button>
+            {previewLoading && <span className="text-xs text-gray-500 dark:text-gray-400">Rendering preview...</span>}
+            {previewError && <span className="text-xs text-red-600 dark:text-red-400">{previewError}</span>}
+          </div>
+          {previewUrl && <audio key={previewUrl} controls autoPlay src={previewUrl} className="w-full" />}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
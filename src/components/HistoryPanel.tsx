@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { formatFileSize, formatTime } from "@/lib/formatting";
+import type { HistoryEntry, StorageUsage } from "@/lib/history";
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  usage: StorageUsage | null;
+  /** Why history couldn't be read or saved, if it couldn't. */
+  error: string | null;
+  saveAudio: boolean;
+  onSaveAudioChange: (saveAudio: boolean) => void;
+  loadOutput: (entry: HistoryEntry, index: number) => Promise<Blob | null>;
+  onDelete: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  /** Asks for the original file again and reuses the entry's settings for it. */
+  onConvertAgain: (entry: HistoryEntry) => void;
+}
+
+const actionClass = "font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50";
+
+function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default function HistoryPanel({
+  entries,
+  usage,
+  error,
+  saveAudio,
+  onSaveAudioChange,
+  loadOutput,
+  onDelete,
+  onClear,
+  onConvertAgain,
+}: HistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<{ key: string; url: string } | null>(null);
+  const [missing, setMissing] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+  }, [preview]);
+
+  const withOutput = async (entry: HistoryEntry, index: number, use: (blob: Blob) => void) => {
+    const blob = await loadOutput(entry, index).catch(() => null);
+    if (blob) {
+      setMissing(null);
+      use(blob);
+    } else {
+      setMissing(`${entry.id}:${index}`);
+    }
+  };
+
+  const handlePreview = (entry: HistoryEntry, index: number) => {
+    const key = `${entry.id}:${index}`;
+    if (preview?.key === key) {
+      setPreview(null);
+      return;
+    }
+    withOutput(entry, index, blob => setPreview({ key, url: URL.createObjectURL(blob) }));
+  };
+
+  const handleClear = () => {
+    if (window.confirm("Delete all conversion history and saved audio from this browser?")) {
+      setPreview(null);
+      onClear();
+    }
+  };
+
+  const usedShare = usage ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>History ({entries.length})</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={saveAudio}
+              onChange={(e) => onSaveAudioChange(e.target.checked)}
+              className="rounded"
+            />
+            Save converted audio in this browser
+          </label>
+
+          {usage && (
+            <div>
+              <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1.5 overflow-hidden">
+                <div
+                  className={`h-1.5 rounded-full ${usedShare > 80 ? "bg-amber-500" : "bg-blue-500"}`}
+                  style={{ width: `${Math.max(usedShare, 1)}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Using {formatFileSize(usage.usage)} of {formatFileSize(usage.quota)} available to this site
+              </p>
+            </div>
+          )}
+
+          <ul className="space-y-2">
+            {entries.map(entry => (
+              <li key={entry.id} className="bg-white dark:bg-gray-800 rounded-lg px-3 py-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-white truncate">{entry.source.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {[entry.formatName, entry.summary].filter(Boolean).join(" • ")}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-3 text-xs">
+                    <button type="button" onClick={() => onConvertAgain(entry)} className={actionClass}>
+                      Convert again
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(entry)}
+                      className="font-medium text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <ul className="mt-2 space-y-1">
+                  {entry.outputs.map((output, index) => {
+                    const key = `${entry.id}:${index}`;
+                    return (
+                      <li key={key} className="text-xs">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="min-w-0 truncate text-gray-600 dark:text-gray-300">
+                            {output.name}
+                            <span className="text-gray-400">
+                              {output.duration !== undefined && ` • ${formatTime(output.duration)}`} • {formatFileSize(output.size)}
+                            </span>
+                          </span>
+                          {output.stored ? (
+                            <span className="flex flex-shrink-0 gap-3">
+                              {output.kind === "audio" && (
+                                <button type="button" onClick={() => handlePreview(entry, index)} className={actionClass}>
+                                  {preview?.key === key ? "Stop" : "Play"}
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => withOutput(entry, index, blob => downloadBlob(blob, output.name))}
+                                className={actionClass}
+                              >
+                                Download
+                              </button>
+                            </span>
+                          ) : (
+                            <span className="flex-shrink-0 text-gray-400">Not saved</span>
+                          )}
+                        </div>
+                        {missing === key && (
+                          <p className="text-red-600 dark:text-red-400">The saved audio is no longer available.</p>
+                        )}
+                        {preview?.key === key && (
+                          <audio key={preview.url} controls autoPlay src={preview.url} className="w-full h-10 mt-1" />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="px-4 pb-3 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+
+interface LogPanelProps {
+  logs: string[];
+  /** Lines put above the log when it's copied or downloaded, e.g. the error message. */
+  header: string[];
+  /** Name of the downloaded file. */
+  fileName: string;
+}
+
+const actionClass = "font-medium text-blue-600 dark:text-blue-400 hover:underline";
+
+export default function LogPanel({ logs, header, fileName }: LogPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const text = [...header, "", ...logs].join("\n");
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the download still works.
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="w-full bg-gray-50 dark:bg-gray-700 rounded-lg text-left">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Technical details ({logs.length} log lines)</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <pre className="max-h-64 overflow-auto p-3 rounded-lg bg-white dark:bg-gray-800 text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all">
+            {text}
+          </pre>
+          <div className="flex gap-4 text-sm">
+            <button type="button" onClick={handleCopy} className={actionClass}>
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button type="button" onClick={handleDownload} className={actionClass}>
+              Download .txt
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
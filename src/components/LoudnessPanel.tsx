@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { LOUDNESS_PRESETS, type LoudnessPresetId, type LoudnessSettings, type LoudnessTarget } from "@/lib/loudness";
+
+interface LoudnessPanelProps {
+  settings: LoudnessSettings;
+  errors: string[];
+  onChange: (settings: LoudnessSettings) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+const TARGET_FIELDS: { key: keyof LoudnessTarget; label: string; step: number }[] = [
+  { key: "integrated", label: "Loudness (LUFS)", step: 0.5 },
+  { key: "truePeak", label: "True peak (dBTP)", step: 0.1 },
+  { key: "lra", label: "Loudness range (LU)", step: 1 },
+];
+
+export default function LoudnessPanel({ settings, errors, onChange }: LoudnessPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const selectPreset = (id: LoudnessPresetId) => {
+    const preset = LOUDNESS_PRESETS.find(p => p.id === id);
+    onChange(preset
+      ? { ...settings, preset: id, integrated: preset.integrated, truePeak: preset.truePeak, lra: preset.lra }
+      : { ...settings, preset: id });
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Loudness normalization {settings.enabled && `(${settings.integrated} LUFS)`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+              className="rounded"
+            />
+            Normalize loudness (EBU R128, measured first)
+          </label>
+
+          {settings.enabled && (
+            <>
+              <div>
+                <label className={labelClass}>Target</label>
+                <select
+                  className={inputClass}
+                  value={settings.preset}
+                  onChange={(e) => selectPreset(e.target.value as LoudnessPresetId)}
+                >
+                  {LOUDNESS_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                {TARGET_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className={labelClass}>{field.label}</label>
+                    <input
+                      type="number"
+                      step={field.step}
+                      className={inputClass}
+                      value={settings[field.key]}
+                      // Editing a preset's value turns it into a custom target.
+                      onChange={(e) => onChange({ ...settings, preset: "custom", [field.key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { MediaInfo, MediaStream } from "@/lib/mediaInfo";
+
+interface MediaInfoPanelProps {
+  info: MediaInfo;
+}
+
+function formatDuration(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, "0");
+  return `${hrs}:${mins.toString().padStart(2, "0")}:${secs}`;
+}
+
+function describeStream(stream: MediaStream): string {
+  const parts: string[] = [stream.codec];
+  if (stream.type === "audio") {
+    if (stream.sampleRate) parts.push(`${stream.sampleRate} Hz`);
+    if (stream.channelLayout) {
+      parts.push(
+        stream.channels && !/channels/.test(stream.channelLayout)
+          ? `${stream.channelLayout} (${stream.channels} ch)`
+          : stream.channelLayout
+      );
+    }
+  }
+  if (stream.type === "video") {
+    if (stream.width && stream.height) parts.push(`${stream.width}×${stream.height}`);
+    if (stream.fps) parts.push(`${stream.fps} fps`);
+  }
+  if (stream.bitrate) parts.push(`${stream.bitrate} kb/s`);
+  return parts.join(" • ");
+}
+
+export default function MediaInfoPanel({ info }: MediaInfoPanelProps) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 rounded-lg text-sm">
+      <dl className="grid grid-cols-3 gap-2 mb-3">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Container</dt>
+          <dd className="font-medium text-gray-800 dark:text-white truncate" title={info.container}>
+            {info.container.split(",")[0]}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Duration</dt>
+          <dd className="font-medium text-gray-800 dark:text-white">
+            {info.duration !== null ? formatDuration(info.duration) : "Unknown"}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Bitrate</dt>
+          <dd className="font-medium text-gray-800 dark:text-white">
+            {info.bitrate !== null ? `${info.bitrate} kb/s` : "Unknown"}
+          </dd>
+        </div>
+      </dl>
+
+      <ul className="space-y-1.5">
+        {info.streams.map((stream) => (
+          <li key={stream.index} className="flex items-baseline gap-2">
+            <span className={`flex-shrink-0 px-1.5 py-0.5 rounded text-xs font-medium uppercase ${
+              stream.type === "audio"
+                ? "bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300"
+                : "bg-gray-200 dark:bg-gray-600 text-gray-600 dark:text-gray-300"
+            }`}>
+              {stream.type}
+            </span>
+            <span className="text-gray-700 dark:text-gray-200 min-w-0">
+              {describeStream(stream)}
+              {stream.language && <span className="text-gray-500 dark:text-gray-400"> • {stream.language}</span>}
+              {stream.title && <span className="text-gray-500 dark:text-gray-400"> • “{stream.title}”</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {info.chapters.length > 0 && (
+        <p className="mt-2 text-gray-500 dark:text-gray-400">
+          {info.chapters.length} {info.chapters.length === 1 ? "chapter" : "chapters"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { NAMING_TOKENS, type NamingToken } from "@/lib/naming";
+
+interface NamingPatternInputProps {
+  pattern: string;
+  /** Name the first output would get, or null when there's nothing to show it for. */
+  preview: string | null;
+  errors: string[];
+  disabled?: boolean;
+  onChange: (pattern: string) => void;
+}
+
+export default function NamingPatternInput({ pattern, preview, errors, disabled, onChange }: NamingPatternInputProps) {
+  return (
+    <div>
+      <label htmlFor="naming-pattern" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        File Name
+      </label>
+      <input
+        id="naming-pattern"
+        type="text"
+        value={pattern}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm font-mono text-gray-800 dark:text-gray-200"
+      />
+      <div className="flex flex-wrap gap-1 mt-2">
+        {(Object.keys(NAMING_TOKENS) as NamingToken[]).map(token => (
+          <button
+            key={token}
+            type="button"
+            title={NAMING_TOKENS[token]}
+            disabled={disabled}
+            onClick={() => onChange(`${pattern}{${token}}`)}
+            className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            {`{${token}}`}
+          </button>
+        ))}
+      </div>
+      {preview && errors.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Saved as <span className="font-medium text-gray-700 dark:text-gray-200 break-all">{preview}</span>
+        </p>
+      )}
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        Characters that aren&apos;t allowed in file names are replaced, and names already in use get a number.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useRef, useState } from "react";
+import type { Preset } from "@/lib/presets";
+
+interface PresetPanelProps {
+  presets: Preset[];
+  /** The preset applied last, if it still exists. */
+  activeId: string | null;
+  errors: string[];
+  /** Confirmation after saving or importing. */
+  message: string | null;
+  disabled?: boolean;
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onDelete: (preset: Preset) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const buttonClass =
+  "px-3 py-2 rounded-lg text-sm font-medium bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50";
+
+export default function PresetPanel({
+  presets,
+  activeId,
+  errors,
+  message,
+  disabled,
+  onApply,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+}: PresetPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const importRef = useRef<HTMLInputElement>(null);
+  const active = presets.find(preset => preset.id === activeId);
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Presets{active && ` • ${active.name}`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          {presets.length > 0 ? (
+            <div className="flex gap-2">
+              <select
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200"
+                value={active?.id ?? ""}
+                disabled={disabled}
+                onChange={(e) => {
+                  const preset = presets.find(candidate => candidate.id === e.target.value);
+                  if (preset) onApply(preset);
+                }}
+              >
+                <option value="" disabled>Choose a preset</option>
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+              {active && (
+                <button type="button" onClick={() => onDelete(active)} disabled={disabled} className={buttonClass}>
+                  Delete
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Save the format, quality, filters, loudness, naming and tags you use often, e.g. &quot;Podcast 64k mono&quot;.
+            </p>
+          )}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onSave(name);
+              setName("");
+            }}
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={active ? active.name : "Preset name"}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200"
+            />
+            <button type="submit" disabled={disabled} className={buttonClass}>
+              Save current settings
+            </button>
+          </form>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Saving under an existing name replaces that preset.
+          </p>
+
+          <div className="flex gap-2">
+            <button type="button" onClick={onExport} disabled={presets.length === 0} className={buttonClass}>
+              Export presets
+            </button>
+            <button type="button" onClick={() => importRef.current?.click()} disabled={disabled} className={buttonClass}>
+              Import presets
+            </button>
+            <input
+              ref={importRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {message && (
+            <p className="text-xs text-green-700 dark:text-green-400">{message}</p>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import type { Chapter } from "@/lib/mediaInfo";
+import type { SplitMode, SplitSettings } from "@/lib/split";
+import { formatTimestamp } from "@/lib/trim";
+
+interface SplitPanelProps {
+  settings: SplitSettings;
+  chapters: Chapter[];
+  /** Length of the audio that will be split, i.e. the trim selection when there is one. */
+  rangeLength: number;
+  errors: string[];
+  onChange: (settings: SplitSettings) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+const MODES: { mode: SplitMode; label: string }[] = [
+  { mode: "none", label: "Don't split" },
+  { mode: "chapters", label: "By chapters" },
+  { mode: "silence", label: "By silence" },
+  { mode: "length", label: "Fixed length" },
+];
+
+export default function SplitPanel({ settings, chapters, rangeLength, errors, onChange }: SplitPanelProps) {
+  const [open, setOpen] = useState(false);
+  const update = (changes: Partial<SplitSettings>) => onChange({ ...settings, ...changes });
+  const summary = MODES.find(option => option.mode === settings.mode)?.label;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Split into tracks {settings.mode !== "none" && `(${summary?.toLowerCase()})`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {MODES.map(option => {
+              const unavailable = option.mode === "chapters" && chapters.length === 0;
+              return (
+                <label
+                  key={option.mode}
+                  className={`flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 ${unavailable ? "opacity-50" : "cursor-pointer"}`}
+                >
+                  <input
+                    type="radio"
+                    name="split-mode"
+                    checked={settings.mode === option.mode}
+                    disabled={unavailable}
+                    onChange={() => update({ mode: option.mode })}
+                  />
+                  {option.label}
+                  {option.mode === "chapters" && ` (${chapters.length})`}
+                </label>
+              );
+            })}
+          </div>
+
+          {settings.mode === "chapters" && chapters.length > 0 && (
+            <ol className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-600 dark:text-gray-300">
+              {chapters.map((chapter, i) => (
+                <li key={i} className="flex justify-between gap-3">
+                  <span className="truncate">{i + 1}. {chapter.title ?? `Chapter ${i + 1}`}</span>
+                  <span className="flex-shrink-0 font-mono text-gray-400">{formatTimestamp(chapter.start)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {settings.mode === "silence" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Silence below (dB)</label>
+                <input
+                  type="number"
+                  step={1}
+                  className={inputClass}
+                  value={settings.silenceThreshold}
+                  onChange={(e) => update({ silenceThreshold: Number(e.target.value) })}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Minimum gap (s)</label>
+                <input
+                  type="number"
+                  step={0.1}
+                  min={0.1}
+                  className={inputClass}
+                  value={settings.silenceMinGap}
+                  onChange={(e) => update({ silenceMinGap: Number(e.target.value) })}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                The audio is scanned for gaps before converting. Tracks are cut in the middle of each gap.
+              </p>
+            </div>
+          )}
+
+          {settings.mode === "length" && (
+            <div>
+              <label className={labelClass}>Part length (minutes)</label>
+              <input
+                type="number"
+                step={1}
+                min={1}
+                className={inputClass}
+                value={settings.segmentLength / 60}
+                onChange={(e) => update({ segmentLength: Number(e.target.value) * 60 })}
+              />
+              {settings.segmentLength >= 1 && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  About {Math.ceil(rangeLength / settings.segmentLength)} parts
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import type { OtherStream } from "@/lib/mediaInfo";
+import { isTextSubtitle, SUBTITLE_FORMATS, subtitleTrackLabel, type SubtitleFormat } from "@/lib/subtitles";
+
+interface SubtitlePanelProps {
+  streams: OtherStream[];
+  /** Indices of the tracks exported together with the audio. */
+  selected: number[];
+  format: SubtitleFormat;
+  /** Index of the track being downloaded on its own, if any. */
+  exporting: number | null;
+  error: string | null;
+  onSelectedChange: (selected: number[]) => void;
+  onFormatChange: (format: SubtitleFormat) => void;
+  onExport: (streamIndex: number) => void;
+}
+
+export default function SubtitlePanel({
+  streams,
+  selected,
+  format,
+  exporting,
+  error,
+  onSelectedChange,
+  onFormatChange,
+  onExport,
+}: SubtitlePanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (index: number, include: boolean) => {
+    onSelectedChange(include ? [...selected, index] : selected.filter(other => other !== index));
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>
+          Subtitles ({streams.length})
+          {selected.length > 0 && ` • ${selected.length} included`}
+        </span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-2">
+            {(Object.keys(SUBTITLE_FORMATS) as SubtitleFormat[]).map(id => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => onFormatChange(id)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
+                  format === id
+                    ? "bg-blue-600 text-white"
+                    : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+                }`}
+              >
+                {SUBTITLE_FORMATS[id].name}
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-2">
+            {streams.map((stream, position) => {
+              const text = isTextSubtitle(stream);
+              return (
+                <li key={stream.index} className="flex items-center justify-between gap-3 text-sm">
+                  {text ? (
+                    <label className="flex items-center gap-2 min-w-0 text-gray-800 dark:text-gray-200 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(stream.index)}
+                        onChange={(e) => toggle(stream.index, e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="truncate">{subtitleTrackLabel(stream, position)}</span>
+                    </label>
+                  ) : (
+                    <span className="min-w-0 text-gray-400 dark:text-gray-500">
+                      <span className="block truncate">{subtitleTrackLabel(stream, position)}</span>
+                      <span className="block text-xs">Image-based, so it can&apos;t be exported as text</span>
+                    </span>
+                  )}
+                  {text && (
+                    <button
+                      type="button"
+                      onClick={() => onExport(stream.index)}
+                      disabled={exporting !== null}
+                      className="flex-shrink-0 font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    >
+                      {exporting === stream.index ? "Exporting..." : `Download .${SUBTITLE_FORMATS[format].extension}`}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Included subtitles are saved next to the audio and cut to the same selection.
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import type { TagSupport } from "@/lib/audioFormats";
+import type { AudioTags, CoverArt } from "@/lib/tags";
+
+interface TagEditorProps {
+  tags: AudioTags;
+  errors: string[];
+  onChange: (tags: AudioTags) => void;
+  tagSupport?: TagSupport;
+  formatName: string;
+  cover: CoverArt | null;
+  coverError: string | null;
+  canGrabFrame: boolean;
+  grabbingFrame: boolean;
+  duration: number | null;
+  onCoverUpload: (file: File) => void;
+  onGrabFrame: (seconds: number) => void;
+  onRemoveCover: () => void;
+}
+
+const FIELDS: { key: keyof AudioTags; label: string; wide?: boolean }[] = [
+  { key: "title", label: "Title", wide: true },
+  { key: "artist", label: "Artist" },
+  { key: "album", label: "Album" },
+  { key: "year", label: "Year" },
+  { key: "track", label: "Track" },
+  { key: "genre", label: "Genre" },
+  { key: "comment", label: "Comment", wide: true },
+];
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+export default function TagEditor({
+  tags,
+  errors,
+  onChange,
+  tagSupport,
+  formatName,
+  cover,
+  coverError,
+  canGrabFrame,
+  grabbingFrame,
+  duration,
+  onCoverUpload,
+  onGrabFrame,
+  onRemoveCover,
+}: TagEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [frameTime, setFrameTime] = useState("0");
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Tags &amp; cover art</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && !tagSupport && (
+        <p className="px-4 pb-4 text-sm text-gray-500 dark:text-gray-400">
+          {formatName} files can&apos;t carry tags. Pick another format to add them.
+        </p>
+      )}
+
+      {open && tagSupport && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(field => (
+              <div key={field.key} className={field.wide ? "col-span-2" : ""}>
+                <label className={labelClass}>{field.label}</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  value={tags[field.key]}
+                  onChange={(e) => onChange({ ...tags, [field.key]: e.target.value })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <p className={labelClass}>Cover art</p>
+            {!tagSupport.coverArt ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {formatName} files can&apos;t embed cover art.
+              </p>
+            ) : (
+              <div className="flex items-start gap-4">
+                <div className="w-24 h-24 flex-shrink-0 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 overflow-hidden flex items-center justify-center">
+                  {cover ? (
+                    <img src={cover.url} alt="Cover art" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-xs text-gray-400">No cover</span>
+                  )}
+                </div>
+                <div className="space-y-2 text-sm">
+                  <label className="inline-block cursor-pointer font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                    Upload image
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onCoverUpload(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {canGrabFrame && (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={duration ?? undefined}
+                        step={0.1}
+                        value={frameTime}
+                        onChange={(e) => setFrameTime(e.target.value)}
+                        className={`${inputClass} w-24`}
+                        aria-label="Frame time in seconds"
+                      />
+                      <button
+                        type="button"
+                        disabled={grabbingFrame}
+                        onClick={() => onGrabFrame(Math.max(0, Number(frameTime) || 0))}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                      >
+                        {grabbingFrame ? "Grabbing..." : "Use video frame (s)"}
+                      </button>
+                    </div>
+                  )}
+                  {cover && (
+                    <button
+                      type="button"
+                      onClick={onRemoveCover}
+                      className="block font-medium text-gray-500 dark:text-gray-400 hover:underline"
+                    >
+                      Remove cover
+                    </button>
+                  )}
+                  {coverError && <p className="text-xs text-red-600 dark:text-red-400">{coverError}</p>}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,73 @@
 "use client";
 
-import { useState, useRef, useCallback, useEffect } from "react";
-import { FFmpeg } from "@ffmpeg/ffmpeg";
-
-type ConversionStatus = "idle" | "loading" | "ready" | "converting" | "done" | "error";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { createZip } from "@/lib/zip";
+import { getAudioStreams, getSubtitleStreams, hasVideo, type MediaInfo } from "@/lib/mediaInfo";
+import { detectInputType, type InputKind } from "@/lib/fileType";
+import type { SubtitleFormat } from "@/lib/subtitles";
+import {
+  availableChannelModes,
+  channelNames,
+  DEFAULT_CHANNELS,
+  validateChannels,
+  type ChannelSettings,
+} from "@/lib/channels";
+import { getCopyTarget } from "@/lib/streamCopy";
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+import { validateSettings } from "@/lib/encodingSettings";
+import { EMPTY_TAGS, tagsFromMetadata, validateTags, type AudioTags, type CoverArt } from "@/lib/tags";
+import { DEFAULT_TRIM, validateTrim, type TrimSettings } from "@/lib/trim";
+import { DEFAULT_LOUDNESS, describeLoudness, validateLoudness, type LoudnessSettings } from "@/lib/loudness";
+import { defaultFilterChain, playbackRate, validateFilterChain, type FilterStep } from "@/lib/filters";
+import { DEFAULT_SPLIT, segmentFileName, validateSplit, type SplitSettings } from "@/lib/split";
+import { getMaxInputBytes } from "@/lib/inputFile";
+import { formatFileSize, formatTime } from "@/lib/formatting";
+import { formatSpeed, type ProgressUpdate } from "@/lib/progress";
+import { createConversionEngine, type EngineOutput, type FormatChoice } from "@/lib/conversionEngine";
+import {
+  bitrateToken,
+  DEFAULT_NAMING_PATTERN,
+  namesParts,
+  renderFileName,
+  validateNamingPattern,
+} from "@/lib/naming";
+import {
+  createPresetStore,
+  exportPresets,
+  presetTags,
+  readPresetFile,
+  validatePreset,
+  validatePresetName,
+  type Preset,
+  type PresetSettings,
+} from "@/lib/presets";
+import { diagnoseError } from "@/lib/diagnostics";
+import { isCoreStored, registerServiceWorker } from "@/lib/offline";
+import {
+  createHistoryStore,
+  findPreviousConversion,
+  getStorageUsage,
+  historyEntryFor,
+  type HistoryEntry,
+  type HistorySettings,
+  type StorageUsage,
+} from "@/lib/history";
+import AdvancedSettings from "@/components/AdvancedSettings";
+import TagEditor from "@/components/TagEditor";
+import SplitPanel from "@/components/SplitPanel";
+import FilterChainPanel from "@/components/FilterChainPanel";
+import LoudnessPanel from "@/components/LoudnessPanel";
+import WaveformTrimmer from "@/components/WaveformTrimmer";
+import MediaInfoPanel from "@/components/MediaInfoPanel";
+import AudioTrackPicker from "@/components/AudioTrackPicker";
+import LogPanel from "@/components/LogPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import SubtitlePanel from "@/components/SubtitlePanel";
+import ChannelPanel from "@/components/ChannelPanel";
+import PresetPanel from "@/components/PresetPanel";
+import NamingPatternInput from "@/components/NamingPatternInput";
+
+type ConversionStatus = "idle" | "loading" | "ready" | "converting" | "done" | "error" | "batch";
 
 interface LoadingStep {
   id: string;
@@ -18,205 +82,243 @@ interface FileInfo {
   type: string;
 }
 
-interface AudioFormat {
+interface QueueItem {
   id: string;
-  name: string;
-  extension: string;
-  codec: string;
-  mimeType: string;
-  quality?: string[];
+  file: File;
+  status: "queued" | "converting" | "done" | "error";
+  error?: string;
+  outputs?: EngineOutput[];
 }
 
-const AUDIO_FORMATS: AudioFormat[] = [
-  { id: "mp3", name: "MP3", extension: "mp3", codec: "libmp3lame", mimeType: "audio/mpeg", quality: ["-q:a", "2"] },
-  { id: "wav", name: "WAV", extension: "wav", codec: "pcm_s16le", mimeType: "audio/wav" },
-  { id: "aac", name: "AAC", extension: "m4a", codec: "aac", mimeType: "audio/mp4", quality: ["-b:a", "192k"] },
-  { id: "ogg", name: "OGG", extension: "ogg", codec: "libvorbis", mimeType: "audio/ogg", quality: ["-q:a", "6"] },
-  { id: "flac", name: "FLAC", extension: "flac", codec: "flac", mimeType: "audio/flac" },
-];
-
-function formatFileSize(bytes: number): string {
-  if (bytes === 0) return "0 Bytes";
-  const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+interface ConvertedOutput extends EngineOutput {
+  url: string;
 }
 
-function formatTime(seconds: number): string {
-  const hrs = Math.floor(seconds / 3600);
-  const mins = Math.floor((seconds % 3600) / 60);
-  const secs = Math.floor(seconds % 60);
-  if (hrs > 0) {
-    return `${hrs}:${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
-  }
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+const WAVEFORM_BUCKETS = 600;
+const SAVE_AUDIO_KEY = "history.saveAudio";
+const PREVIEW_SECONDS = 5;
+const VIDEO_ICON_PATH = "M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z";
+const AUDIO_ICON_PATH = "M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3";
+// Browsers often leave these without a MIME type, so they're listed by extension too.
+const INPUT_ACCEPT = "video/*,audio/*,.mkv,.mka,.flv,.ts,.mts,.m2ts,.vob,.wmv,.wma,.opus";
+const FILTER_PREVIEW_SECONDS = 10;
+
+function canPreview(mimeType: string): boolean {
+  return document.createElement("audio").canPlayType(mimeType) !== "";
 }
 
-function estimateConversionTime(fileSize: number): string {
-  const seconds = Math.ceil(fileSize / (2 * 1024 * 1024));
-  if (seconds < 60) return `~${seconds}s`;
-  const minutes = Math.ceil(seconds / 60);
-  return `~${minutes}min`;
+function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 export default function VideoToAudioConverter() {
+  const [engine] = useState(() => createConversionEngine());
   const [status, setStatus] = useState<ConversionStatus>("idle");
   const [progress, setProgress] = useState(0);
+  const [progressStats, setProgressStats] = useState<ProgressUpdate | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string>("");
+  const [errorLogs, setErrorLogs] = useState<string[]>([]);
+  const [outputs, setOutputs] = useState<ConvertedOutput[]>([]);
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
+  const [inputKind, setInputKind] = useState<InputKind>("video");
   const [isDragging, setIsDragging] = useState(false);
-  const [selectedFormat, setSelectedFormat] = useState<AudioFormat>(AUDIO_FORMATS[0]);
-  const [videoDuration, setVideoDuration] = useState<number>(0);
-  const [outputSize, setOutputSize] = useState<number>(0);
+  const [selectedFormat, setSelectedFormat] = useState<AudioFormat>(() => engine.formats.list()[0]);
+  const [multiFormat, setMultiFormat] = useState(false);
+  // Formats encoded alongside `selectedFormat`, in the order they were picked.
+  const [additionalFormats, setAdditionalFormats] = useState<AudioFormat[]>([]);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  const [selectedTrack, setSelectedTrack] = useState<number | "all" | null>(null);
+  const [keepOriginal, setKeepOriginal] = useState(false);
+  const [settingsByFormat, setSettingsByFormat] = useState<Record<string, EncodingSettings>>({});
+  const [conversionNote, setConversionNote] = useState<string | null>(null);
+  const [tags, setTags] = useState<AudioTags>(EMPTY_TAGS);
+  const [cover, setCover] = useState<CoverArt | null>(null);
+  const [coverError, setCoverError] = useState<string | null>(null);
+  const [grabbingFrame, setGrabbingFrame] = useState(false);
+  const [trim, setTrim] = useState<TrimSettings>(DEFAULT_TRIM);
+  const [loudness, setLoudness] = useState<LoudnessSettings>(DEFAULT_LOUDNESS);
+  const [split, setSplit] = useState<SplitSettings>(DEFAULT_SPLIT);
+  const [channels, setChannels] = useState<ChannelSettings>(DEFAULT_CHANNELS);
+  const [conversionPhase, setConversionPhase] = useState<string | null>(null);
+  const [waveform, setWaveform] = useState<number[] | null>(null);
+  const [waveformLoading, setWaveformLoading] = useState(false);
+  const [waveformError, setWaveformError] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [filterChain, setFilterChain] = useState<FilterStep[]>(defaultFilterChain);
+  const [filterPreviewUrl, setFilterPreviewUrl] = useState<string | null>(null);
+  const [filterPreviewLoading, setFilterPreviewLoading] = useState(false);
+  const [filterPreviewError, setFilterPreviewError] = useState<string | null>(null);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
-  const [hasAudioTrack, setHasAudioTrack] = useState<boolean>(true);
   const [loadingSteps, setLoadingSteps] = useState<LoadingStep[]>([]);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const [coreDownloadMB, setCoreDownloadMB] = useState<string | null>(null);
+  const [subtitleSelection, setSubtitleSelection] = useState<number[]>([]);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>("srt");
+  const [subtitleExporting, setSubtitleExporting] = useState<number | null>(null);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
+  const [history] = useState(createHistoryStore);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [saveAudio, setSaveAudio] = useState(true);
+  const [appliedHistoryId, setAppliedHistoryId] = useState<string | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  // Created again on the client, where local storage exists; nothing reads it during prerendering.
+  const [presetStore] = useState(() => createPresetStore(globalThis.localStorage, engine.formats));
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [presetErrors, setPresetErrors] = useState<string[]>([]);
+  const [presetMessage, setPresetMessage] = useState<string | null>(null);
+  const [namingPattern, setNamingPattern] = useState(DEFAULT_NAMING_PATTERN);
+
+  const settingsFor = (format: AudioFormat) => settingsByFormat[format.id] ?? format.defaults;
+  const settingsErrorsFor = (format: AudioFormat) => {
+    const settings = settingsFor(format);
+    return settings ? validateSettings(format, settings) : [];
+  };
+  const encodingSettings = settingsFor(selectedFormat);
+  const settingsErrors = settingsErrorsFor(selectedFormat);
+  const additionalSettingsValid = additionalFormats.every(format => settingsErrorsFor(format).length === 0);
+  const additionalChoices = useMemo<FormatChoice[]>(
+    () => additionalFormats.map(format => ({ format: format.id, settings: settingsByFormat[format.id] ?? format.defaults })),
+    [additionalFormats, settingsByFormat]
+  );
+  const outputFormats = [selectedFormat, ...additionalFormats];
+  const activePreset = presets.find(preset => preset.id === activePresetId);
+  const formatNames = outputFormats.map(format => format.name).join(" + ");
 
-  const ffmpegRef = useRef<FFmpeg | null>(null);
-  const ffmpegLoadedRef = useRef<boolean>(false);
-  const ffmpegLogsRef = useRef<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  // History entry whose settings to reuse once its file is picked again.
+  const reuseRef = useRef<HistoryEntry | null>(null);
 
-  const initLoadingSteps = useCallback((isFirstLoad: boolean) => {
-    const steps: LoadingStep[] = [];
-    if (isFirstLoad) {
-      steps.push({ id: "ffmpeg", label: "Downloading converter...", status: "pending" });
-    }
-    steps.push({ id: "read", label: "Reading video file", status: "pending" });
-    steps.push({ id: "analyze", label: "Analyzing video", status: "pending" });
-    setLoadingSteps(steps);
-    return steps;
-  }, []);
-
-  const updateStepStatus = useCallback((stepId: string, status: LoadingStep["status"], progress?: number) => {
-    setLoadingSteps(prev => prev.map(step =>
-      step.id === stepId ? { ...step, status, progress } : step
-    ));
-  }, []);
-
-  const readFileWithProgress = useCallback((file: File, onProgress: (percent: number) => void): Promise<Uint8Array> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const percent = Math.round((event.loaded / event.total) * 100);
-          onProgress(percent);
-        }
-      };
-      reader.onload = () => {
-        const arrayBuffer = reader.result as ArrayBuffer;
-        resolve(new Uint8Array(arrayBuffer));
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsArrayBuffer(file);
-    });
+  useEffect(() => {
+    registerServiceWorker();
   }, []);
 
-  const fetchWithProgress = useCallback(async (
-    url: string,
-    onProgress: (loaded: number) => void
-  ): Promise<Blob> => {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('ReadableStream not supported');
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistoryEntries(await history.list());
+      setStorageUsage(await getStorageUsage());
+      setHistoryError(null);
+    } catch {
+      // Private browsing modes can refuse IndexedDB; history just stays empty.
+      setHistoryError("Conversion history isn't available in this browser.");
     }
+  }, [history]);
 
-    const chunks: ArrayBuffer[] = [];
-    let loaded = 0;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+  useEffect(() => {
+    refreshHistory();
+    setSaveAudio(localStorage.getItem(SAVE_AUDIO_KEY) !== "false");
+  }, [refreshHistory]);
 
-      chunks.push(value.buffer as ArrayBuffer);
-      loaded += value.length;
-      onProgress(loaded);
+  const recordHistory = useCallback(async (file: File, format: AudioFormat, settings: HistorySettings, results: EngineOutput[]) => {
+    try {
+      await history.add(historyEntryFor(file, format, settings, results), saveAudio ? results.map(output => output.blob) : undefined);
+      await refreshHistory();
+    } catch {
+      setHistoryError("Couldn't save the last conversion to the history.");
     }
-
-    return new Blob(chunks);
-  }, []);
-
-  const blobToURL = useCallback((blob: Blob, mimeType: string): string => {
-    const blobWithType = new Blob([blob], { type: mimeType });
-    return URL.createObjectURL(blobWithType);
-  }, []);
-
-  const loadFFmpeg = async (onProgress?: (downloadedMB: string) => void) => {
-    if (ffmpegRef.current) {
-      return ffmpegRef.current;
+  }, [history, saveAudio, refreshHistory]);
+
+  const applyFormatChoices = useCallback((main: FormatChoice, additional: FormatChoice[] = []) => {
+    const choices = [main, ...additional].filter(choice => engine.formats.get(choice.format) !== undefined);
+    const [primary, ...extras] = choices.map(choice => engine.formats.get(choice.format)!);
+    if (primary) {
+      setSelectedFormat(primary);
+      setAdditionalFormats(extras);
+      setMultiFormat(extras.length > 0);
     }
-
-    const ffmpeg = new FFmpeg();
-    ffmpeg.on("progress", ({ progress }) => {
-      setProgress(Math.round(progress * 100));
-    });
-    ffmpeg.on("log", ({ message }) => {
-      ffmpegLogsRef.current.push(message);
+    setSettingsByFormat(prev => {
+      const next = { ...prev };
+      for (const choice of choices) {
+        if (choice.settings) next[choice.format] = choice.settings;
+      }
+      return next;
     });
+  }, [engine]);
+
+  const applyHistorySettings = useCallback((entry: HistoryEntry, info: MediaInfo | null) => {
+    const { settings } = entry;
+    applyFormatChoices(settings, settings.additionalFormats);
+    const streams = info ? getAudioStreams(info) : [];
+    if (settings.track === "all" || streams.some(stream => stream.index === settings.track)) {
+      setSelectedTrack(settings.track ?? null);
+    }
+    setKeepOriginal(settings.keepOriginal ?? false);
+    setTrim(settings.trim ?? { ...DEFAULT_TRIM, end: info?.duration ?? 0 });
+    setFilterChain(settings.filters ?? defaultFilterChain());
+    setLoudness(settings.loudness ?? DEFAULT_LOUDNESS);
+    setSplit(settings.split ?? DEFAULT_SPLIT);
+    setChannels(settings.channels ?? DEFAULT_CHANNELS);
+    const subtitleStreams = info ? getSubtitleStreams(info) : [];
+    setSubtitleSelection((settings.subtitles?.streams ?? []).filter(index => subtitleStreams.some(stream => stream.index === index)));
+    setSubtitleFormat(settings.subtitles?.format ?? "srt");
+    setAppliedHistoryId(entry.id);
+    setHistoryNotice(null);
+  }, [applyFormatChoices]);
+
+  /** `channels` are the selected track's channel names, or null before a file is loaded. */
+  const applyPreset = useCallback((preset: Preset, channels: string[] | null) => {
+    const { settings } = preset;
+    applyFormatChoices(settings, settings.additionalFormats);
+    setKeepOriginal(settings.keepOriginal);
+    setFilterChain(settings.filters);
+    setLoudness(settings.loudness);
+    setNamingPattern(settings.naming);
+    setTags(prev => ({ ...prev, ...settings.tags }));
+    if (channels) {
+      setChannels(validateChannels(settings.channels, channels).length === 0 ? settings.channels : DEFAULT_CHANNELS);
+    }
+    setActivePresetId(preset.id);
+    setPresetErrors([]);
+    setPresetMessage(null);
+    presetStore.setLastUsed(preset.id);
+  }, [applyFormatChoices, presetStore]);
 
-    const cdnList = [
-      "https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm",
-      "https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd",
-    ];
-
-    let lastError: Error | null = null;
-    const TIMEOUT_MS = 300000;
-
-    for (const baseURL of cdnList) {
-      try {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error("Loading timeout")), TIMEOUT_MS);
-        });
-
-        const loadPromise = (async () => {
-          const jsBlob = await fetchWithProgress(
-            `${baseURL}/ffmpeg-core.js`,
-            () => {}
-          );
-          const coreURL = blobToURL(jsBlob, "text/javascript");
-
-          const wasmBlob = await fetchWithProgress(
-            `${baseURL}/ffmpeg-core.wasm`,
-            (loaded) => {
-              if (onProgress) {
-                const downloadedMB = (loaded / 1024 / 1024).toFixed(1);
-                onProgress(downloadedMB);
-              }
-            }
-          );
-          const wasmURL = blobToURL(wasmBlob, "application/wasm");
-
-          await ffmpeg.load({ coreURL, wasmURL });
-        })();
+  useEffect(() => {
+    const stored = presetStore.list();
+    setPresets(stored);
+    const lastUsed = stored.find(preset => preset.id === presetStore.getLastUsed());
+    if (lastUsed) applyPreset(lastUsed, null);
+  }, [presetStore, applyPreset]);
 
-        await Promise.race([loadPromise, timeoutPromise]);
-        lastError = null;
-        break;
-      } catch (e) {
-        lastError = e instanceof Error ? e : new Error(String(e));
-      }
+  const initLoadingSteps = useCallback((isFirstLoad: boolean, isStored: boolean) => {
+    const steps: LoadingStep[] = [];
+    if (isFirstLoad) {
+      steps.push({
+        id: "ffmpeg",
+        label: isStored ? "Starting converter" : "Downloading converter...",
+        status: "pending",
+      });
     }
+    steps.push({ id: "analyze", label: "Analyzing file", status: "pending" });
+    setLoadingSteps(steps);
+    return steps;
+  }, []);
 
-    if (lastError) {
-      throw new Error("Failed to load converter. Please check your network connection and try again.");
-    }
+  const reportProgress = useCallback((update: ProgressUpdate) => {
+    setProgress(Math.round(update.progress * 100));
+    setProgressStats(update);
+  }, []);
 
-    ffmpegRef.current = ffmpeg;
-    ffmpegLoadedRef.current = true;
-    return ffmpeg;
-  };
+  const updateStepStatus = useCallback((stepId: string, status: LoadingStep["status"], progress?: number) => {
+    setLoadingSteps(prev => prev.map(step =>
+      step.id === stepId ? { ...step, status, progress } : step
+    ));
+  }, []);
 
   const analyzeVideo = useCallback(async (file: File) => {
     setError(null);
-    setAudioUrl(null);
+    setOutputs([]);
     setProgress(0);
     setCurrentFile(file);
     setFileInfo({
@@ -225,135 +327,439 @@ export default function VideoToAudioConverter() {
       type: file.type,
     });
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     try {
       setStatus("loading");
 
-      const isFirstLoad = !ffmpegLoadedRef.current;
-      initLoadingSteps(isFirstLoad);
+      const isFirstLoad = !engine.isCoreCached();
+      // Installed copies keep the core in the service worker's cache, so there's nothing to download.
+      const isStored = isFirstLoad && await isCoreStored();
+      initLoadingSteps(isFirstLoad, isStored);
 
       if (isFirstLoad) {
         updateStepStatus("ffmpeg", "active");
       }
-      const ffmpeg = await loadFFmpeg((downloadedMB) => {
-        if (isFirstLoad) {
-          setLoadingSteps(prev => prev.map(step =>
-            step.id === "ffmpeg"
-              ? { ...step, label: `Downloading converter (${downloadedMB}MB downloaded)` }
-              : step
-          ));
-        }
+      await engine.load({
+        signal,
+        onDownloadProgress: (loaded) => {
+          if (isFirstLoad && !isStored) {
+            const downloadedMB = (loaded / 1024 / 1024).toFixed(1);
+            setLoadingSteps(prev => prev.map(step =>
+              step.id === "ffmpeg"
+                ? { ...step, label: `Downloading converter (${downloadedMB}MB downloaded)` }
+                : step
+            ));
+          }
+        },
       });
       if (isFirstLoad) {
         updateStepStatus("ffmpeg", "done");
       }
 
-      updateStepStatus("read", "active");
-      const inputFileName = "input" + file.name.substring(file.name.lastIndexOf("."));
-      const fileData = await readFileWithProgress(file, (percent) => {
-        updateStepStatus("read", "active", percent);
-      });
-      await ffmpeg.writeFile(inputFileName, fileData);
-      updateStepStatus("read", "done", 100);
-
       updateStepStatus("analyze", "active");
+      await engine.release();
+      const info = await engine.probe(file, { signal });
+      updateStepStatus("analyze", "done");
 
-      ffmpegLogsRef.current = [];
-      try {
-        await ffmpeg.exec(["-i", inputFileName, "-hide_banner"]);
-      } catch {
-        // FFmpeg always "fails" on -i only command, but we got the logs we need
+      setMediaInfo(info);
+      setInputKind(hasVideo(info) ? "video" : "audio");
+      setTags({ ...tagsFromMetadata(info.metadata), ...activePreset?.settings.tags });
+      setTrim({ ...DEFAULT_TRIM, end: info.duration ?? 0 });
+      setSubtitleSelection([]);
+      setSubtitleError(null);
+      setWaveform(null);
+      setWaveformError(false);
+      const audioStreams = getAudioStreams(info);
+      const defaultTrack = audioStreams.find(stream => stream.isDefault) ?? audioStreams[0];
+      setSelectedTrack(defaultTrack ? defaultTrack.index : null);
+      const presetChannels = activePreset?.settings.channels;
+      const trackChannels = defaultTrack ? channelNames(defaultTrack.channelLayout, defaultTrack.channels) : [];
+      setChannels(presetChannels && validateChannels(presetChannels, trackChannels).length === 0 ? presetChannels : DEFAULT_CHANNELS);
+
+      const reuse = reuseRef.current;
+      reuseRef.current = null;
+      if (reuse && findPreviousConversion([reuse], file)) {
+        applyHistorySettings(reuse, info);
+      } else if (reuse) {
+        setHistoryNotice(`This isn't ${reuse.source.name}, so the settings from that conversion weren't applied.`);
       }
+      setStatus("ready");
 
-      const hasAudio = ffmpegLogsRef.current.some(log =>
-        log.includes("Audio:") || log.includes("Stream #") && log.toLowerCase().includes("audio")
-      );
-      setHasAudioTrack(hasAudio);
-
-      let duration = 0;
-      const videoUrl = URL.createObjectURL(file);
-      const video = document.createElement("video");
-      video.preload = "metadata";
-      video.muted = true;
-      video.playsInline = true;
-
-      await new Promise<void>((resolve) => {
-        const timeout = setTimeout(() => {
-          duration = Math.max(60, file.size / (1024 * 1024) * 10);
-          resolve();
-        }, 8000);
-
-        video.onloadedmetadata = () => {
-          clearTimeout(timeout);
-          duration = video.duration;
-          resolve();
-        };
-        video.onerror = () => {
-          clearTimeout(timeout);
-          duration = Math.max(60, file.size / (1024 * 1024) * 10);
-          resolve();
-        };
-        video.src = videoUrl;
-      });
-      URL.revokeObjectURL(videoUrl);
+    } catch (err) {
+      if (signal.aborted) {
+        return;
+      }
+      const errorMsg = err instanceof Error ? err.message : "Failed to analyze file";
+      setError(errorMsg);
+      setErrorLogs(engine.getLogs());
+      setStatus("error");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  }, [engine, activePreset, initLoadingSteps, updateStepStatus, applyHistorySettings]);
 
-      updateStepStatus("analyze", "done");
+  const restoreAfterCancel = useCallback(async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
-      setVideoDuration(duration);
-      setFileName(file.name.replace(/\.[^/.]+$/, "") + "." + selectedFormat.extension);
-      setStatus("ready");
+    setStatus("loading");
+    setLoadingSteps([{ id: "restart", label: "Restarting converter", status: "active" }]);
 
+    try {
+      // The input is mounted again on the next call.
+      await engine.load({ signal });
+      updateStepStatus("restart", "done");
+      setProgress(0);
+      setStatus("ready");
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : "Failed to analyze video";
+      if (signal.aborted) {
+        return;
+      }
+      const errorMsg = err instanceof Error ? err.message : "Failed to restart converter";
       setError(errorMsg);
+      setErrorLogs(engine.getLogs());
       setStatus("error");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
     }
-  }, [selectedFormat.extension, initLoadingSteps, updateStepStatus, readFileWithProgress]);
+  }, [engine, updateStepStatus]);
 
   const startConversion = useCallback(async () => {
-    if (!currentFile || !ffmpegRef.current) return;
+    if (!currentFile) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
     try {
       setStatus("converting");
       setProgress(0);
+      setProgressStats(null);
+
+      const historySettings: HistorySettings = {
+        format: selectedFormat.id,
+        settings: encodingSettings,
+        additionalFormats: additionalChoices,
+        track: selectedTrack ?? undefined,
+        keepOriginal,
+        trim,
+        // Channel tools follow one track's layout, so they're off when extracting every track.
+        channels: selectedTrack === "all" ? undefined : channels,
+        filters: filterChain,
+        loudness,
+        split,
+        subtitles: subtitleSelection.length > 0 ? { streams: subtitleSelection, format: subtitleFormat } : undefined,
+      };
+      const result = await engine.convert(currentFile, {
+        ...historySettings,
+        tags,
+        cover: cover ?? undefined,
+        naming: { pattern: namingPattern },
+      }, {
+        signal,
+        onProgress: reportProgress,
+        onPhase: setConversionPhase,
+      });
 
-      const ffmpeg = ffmpegRef.current;
-      const inputFileName = "input" + currentFile.name.substring(currentFile.name.lastIndexOf("."));
-      const outputFileName = `output.${selectedFormat.extension}`;
-
-      const args: string[] = ["-i", inputFileName];
-      args.push("-vn");
-      args.push("-acodec", selectedFormat.codec);
+      setOutputs(result.outputs.map(output => ({ ...output, url: URL.createObjectURL(output.blob) })));
+      setConversionNote(result.notes.length > 0 ? result.notes.join(" ") : null);
+      setStatus("done");
+      recordHistory(currentFile, selectedFormat, historySettings, result.outputs);
 
-      if (selectedFormat.quality) {
-        args.push(...selectedFormat.quality);
+    } catch (err) {
+      if (signal.aborted) {
+        await restoreAfterCancel();
+        return;
+      }
+      const errorMsg = err instanceof Error ? err.message : "Conversion failed";
+      setError(errorMsg);
+      setErrorLogs(engine.getLogs());
+      setStatus("error");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
       }
+    }
+  }, [engine, currentFile, selectedTrack, keepOriginal, namingPattern, selectedFormat, encodingSettings, additionalChoices, trim, split, channels, filterChain, loudness, subtitleSelection, subtitleFormat, tags, cover, restoreAfterCancel, reportProgress, recordHistory]);
 
-      args.push(outputFileName);
+  const waveformStreamIndex = useCallback(() => {
+    const streams = mediaInfo ? getAudioStreams(mediaInfo) : [];
+    return typeof selectedTrack === "number" ? selectedTrack : streams[0]?.index;
+  }, [mediaInfo, selectedTrack]);
 
-      await ffmpeg.exec(args);
+  const loadWaveform = useCallback(async () => {
+    if (!currentFile || !mediaInfo?.duration) return;
 
-      const data = await ffmpeg.readFile(outputFileName);
-      const blob = new Blob([data as BlobPart], { type: selectedFormat.mimeType });
-      const url = URL.createObjectURL(blob);
+    setWaveformLoading(true);
+    setWaveformError(false);
+    try {
+      setWaveform(await engine.waveform(currentFile, {
+        streamIndex: waveformStreamIndex(),
+        duration: mediaInfo.duration,
+        buckets: WAVEFORM_BUCKETS,
+      }));
+    } catch {
+      setWaveform(null);
+      setWaveformError(true);
+    } finally {
+      setWaveformLoading(false);
+    }
+  }, [engine, currentFile, mediaInfo, waveformStreamIndex]);
 
-      setOutputSize(blob.size);
-      setAudioUrl(url);
-      setStatus("done");
-      await ffmpeg.deleteFile(outputFileName);
+  /** Renders a short MP3 clip of the selected track and returns its object URL. */
+  const renderPreview = useCallback(async (from: number, length: number, filters: FilterStep[]): Promise<string> => {
+    if (!currentFile) {
+      throw new Error("No file loaded");
+    }
+    const blob = await engine.preview(currentFile, { from, length, streamIndex: waveformStreamIndex(), filters });
+    return URL.createObjectURL(blob);
+  }, [engine, currentFile, waveformStreamIndex]);
+
+  const handlePreviewSelection = useCallback(async (edge: "start" | "end") => {
+    const length = Math.min(PREVIEW_SECONDS, trim.end - trim.start);
+    const from = edge === "start" ? trim.start : trim.end - length;
+
+    setPreviewLoading(true);
+    try {
+      const url = await renderPreview(from, length, []);
+      setPreviewUrl(prev => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+    } catch {
+      setPreviewUrl(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  }, [trim, renderPreview]);
 
+  const handlePreviewFilters = useCallback(async () => {
+    const from = trim.enabled ? trim.start : 0;
+    const end = trim.enabled ? trim.end : mediaInfo?.duration ?? FILTER_PREVIEW_SECONDS;
+    const length = Math.min(FILTER_PREVIEW_SECONDS, end - from);
+
+    setFilterPreviewLoading(true);
+    setFilterPreviewError(null);
+    try {
+      const url = await renderPreview(from, length, filterChain);
+      setFilterPreviewUrl(prev => {
+        if (prev) URL.revokeObjectURL(prev);
+        return url;
+      });
+    } catch {
+      setFilterPreviewError("Couldn't render a preview with these filters.");
+    } finally {
+      setFilterPreviewLoading(false);
+    }
+  }, [trim, mediaInfo, filterChain, renderPreview]);
+
+  const handleCoverUpload = useCallback(async (file: File) => {
+    if (file.type !== "image/jpeg" && file.type !== "image/png") {
+      setCoverError("Cover art must be a JPEG or PNG image.");
+      return;
+    }
+    const data = new Uint8Array(await file.arrayBuffer());
+    setCoverError(null);
+    setCover(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return { data, mimeType: file.type as CoverArt["mimeType"], url: URL.createObjectURL(file) };
+    });
+  }, []);
+
+  const handleExportSubtitle = useCallback(async (streamIndex: number) => {
+    if (!currentFile) return;
+
+    setSubtitleExporting(streamIndex);
+    setSubtitleError(null);
+    try {
+      const results = await engine.extractSubtitles(currentFile, { streams: [streamIndex], format: subtitleFormat });
+      results.forEach(output => downloadBlob(output.blob, output.name));
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : "Conversion failed";
-      setError(errorMsg);
-      setStatus("error");
+      setSubtitleError(err instanceof Error ? err.message : "Couldn't export the subtitles.");
+    } finally {
+      setSubtitleExporting(null);
+    }
+  }, [engine, currentFile, subtitleFormat]);
+
+  const handleGrabFrame = useCallback(async (seconds: number) => {
+    if (!currentFile) return;
+
+    setGrabbingFrame(true);
+    setCoverError(null);
+    try {
+      const data = await engine.grabFrame(currentFile, seconds);
+      const blob = new Blob([data as BlobPart], { type: "image/jpeg" });
+      setCover(prev => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return { data, mimeType: "image/jpeg", url: URL.createObjectURL(blob) };
+      });
+    } catch (err) {
+      setCoverError(err instanceof Error ? err.message : "Could not grab a frame.");
+    } finally {
+      setGrabbingFrame(false);
     }
-  }, [currentFile, selectedFormat]);
+  }, [engine, currentFile]);
+
+  const handleRemoveCover = useCallback(() => {
+    setCover(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+  }, []);
+
+  const updateQueueItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  /** Runs `items`, numbering and naming them by their place among `all`, the whole queue. */
+  const runQueue = useCallback(async (items: QueueItem[], all: QueueItem[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    const format = selectedFormat;
+    const settings = encodingSettings;
+    const additional = additionalChoices;
+    const pattern = namingPattern;
+    // Files finished earlier keep their names; a rerun mustn't number itself against its own last attempt.
+    const taken = all
+      .filter(item => !items.includes(item))
+      .flatMap(item => item.outputs?.map(output => output.name) ?? []);
+    setBatchRunning(true);
+
+    for (const item of items) {
+      updateQueueItem(item.id, { status: "converting", error: undefined, outputs: undefined });
+      setProgress(0);
+      setProgressStats(null);
+
+      try {
+        await engine.load({
+          signal,
+          onDownloadProgress: (loaded) => setCoreDownloadMB((loaded / 1024 / 1024).toFixed(1)),
+        });
+        setCoreDownloadMB(null);
+        if (item.file.size > getMaxInputBytes()) {
+          throw new Error(`Over the ${formatFileSize(getMaxInputBytes())} size limit`);
+        }
+
+        const historySettings: HistorySettings = { format: format.id, settings, additionalFormats: additional };
+        const naming = { pattern, index: all.indexOf(item) + 1, count: all.length, taken: [...taken] };
+        const { outputs: results } = await engine.convert(item.file, { ...historySettings, naming }, {
+          signal,
+          onProgress: reportProgress,
+        });
+        updateQueueItem(item.id, { status: "done", outputs: results });
+        taken.push(...results.map(output => output.name));
+        recordHistory(item.file, format, historySettings, results);
+      } catch (err) {
+        const errorMsg = signal.aborted
+          ? "Cancelled"
+          : err instanceof Error ? err.message : "Conversion failed";
+        const diagnosis = diagnoseError(errorMsg, engine.getLogs());
+        updateQueueItem(item.id, {
+          status: "error",
+          error: diagnosis.category === "unknown" ? errorMsg : diagnosis.title,
+        });
+        if (signal.aborted) break;
+      } finally {
+        if (!signal.aborted) {
+          await engine.release();
+        }
+      }
+    }
+
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+    }
+    setCoreDownloadMB(null);
+    setBatchRunning(false);
+  }, [engine, selectedFormat, encodingSettings, additionalChoices, namingPattern, updateQueueItem, reportProgress, recordHistory]);
+
+  const startBatch = useCallback(() => {
+    runQueue(queue.filter(item => item.status === "queued"), queue);
+  }, [queue, runQueue]);
+
+  const retryQueueItems = useCallback((items: QueueItem[]) => {
+    const ids = new Set(items.map(item => item.id));
+    setQueue(prev => prev.map(item => (ids.has(item.id) ? { ...item, status: "queued", error: undefined } : item)));
+    runQueue(items, queue);
+  }, [queue, runQueue]);
+
+  const handleDownloadZip = useCallback(async () => {
+    setZipping(true);
+    try {
+      const zip = await createZip(
+        queue.flatMap(item => (item.outputs ?? []).map(output => ({ name: output.name, data: output.blob })))
+      );
+      downloadBlob(zip, `converted-audio-${selectedFormat.id}.zip`);
+    } finally {
+      setZipping(false);
+    }
+  }, [queue, selectedFormat.id]);
+
+  const handleDownloadOutputsZip = useCallback(async () => {
+    if (!currentFile) return;
+    setZipping(true);
+    try {
+      const zip = await createZip(outputs.map(output => ({ name: output.name, data: output.blob })));
+      downloadBlob(zip, currentFile.name.replace(/\.[^/.]+$/, "") + ".zip");
+    } finally {
+      setZipping(false);
+    }
+  }, [outputs, currentFile]);
+
+  const handleFiles = useCallback(
+    async (files: File[]) => {
+      const maxBytes = getMaxInputBytes();
+      if (files.length === 1) {
+        const [file] = files;
+        if (file.size > maxBytes) {
+          setError(`${file.name} is ${formatFileSize(file.size)}, which is over the ${formatFileSize(maxBytes)} limit.`);
+          setStatus("error");
+          return;
+        }
+        try {
+          setInputKind((await detectInputType(file)).kind);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : "Unsupported file type");
+          setStatus("error");
+          return;
+        }
+        analyzeVideo(file);
+        return;
+      }
+      reuseRef.current = null;
+      setError(null);
+      setProgress(0);
+      setQueue(await Promise.all(files.map(async (file, index): Promise<QueueItem> => {
+        const id = `${index}-${file.name}-${file.lastModified}`;
+        if (file.size > maxBytes) {
+          return { id, file, status: "error", error: `Over the ${formatFileSize(maxBytes)} size limit` };
+        }
+        const supported = await detectInputType(file).then(() => true, () => false);
+        return supported
+          ? { id, file, status: "queued" }
+          : { id, file, status: "error", error: "Not a supported video or audio format" };
+      })));
+      setStatus("batch");
+    },
+    [analyzeVideo]
+  );
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) analyzeVideo(file);
+      const files = Array.from(e.target.files ?? []);
+      if (files.length > 0) handleFiles(files);
     },
-    [analyzeVideo]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -374,25 +780,17 @@ export default function VideoToAudioConverter() {
       e.stopPropagation();
       setIsDragging(false);
 
-      const files = e.dataTransfer.files;
-      if (files.length > 0) {
-        const file = files[0];
-        if (file.type.startsWith("video/")) {
-          analyzeVideo(file);
-        } else {
-          setError("Please drop a video file");
-          setStatus("error");
-        }
-      }
+      // The type is checked from the content, since MIME types are often missing.
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) handleFiles(files);
     },
-    [analyzeVideo]
+    [handleFiles]
   );
 
-  const handleDownload = () => {
-    if (!audioUrl) return;
+  const handleDownload = (output: ConvertedOutput) => {
     const a = document.createElement("a");
-    a.href = audioUrl;
-    a.download = fileName;
+    a.href = output.url;
+    a.download = output.name;
     a.click();
   };
 
@@ -400,68 +798,346 @@ export default function VideoToAudioConverter() {
     setStatus("idle");
     setProgress(0);
     setError(null);
-    setAudioUrl(null);
-    setFileName("");
+    setErrorLogs([]);
+    outputs.forEach(output => URL.revokeObjectURL(output.url));
+    setOutputs([]);
     setFileInfo(null);
     setCurrentFile(null);
-    setVideoDuration(0);
-    setOutputSize(0);
-    setHasAudioTrack(true);
+    setMediaInfo(null);
+    setSelectedTrack(null);
+    setConversionNote(null);
+    setTags(EMPTY_TAGS);
+    setTrim(DEFAULT_TRIM);
+    setSplit(DEFAULT_SPLIT);
+    setWaveform(null);
+    setWaveformError(false);
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(null);
+    if (filterPreviewUrl) URL.revokeObjectURL(filterPreviewUrl);
+    setFilterPreviewUrl(null);
+    setFilterPreviewError(null);
+    handleRemoveCover();
+    setCoverError(null);
+    setQueue([]);
+    setSubtitleSelection([]);
+    setSubtitleError(null);
+    setChannels(DEFAULT_CHANNELS);
+    setAppliedHistoryId(null);
+    setHistoryNotice(null);
+    reuseRef.current = null;
+    engine.release();
     if (inputRef.current) inputRef.current.value = "";
   };
 
-  useEffect(() => {
-    if (currentFile) {
-      setFileName(currentFile.name.replace(/\.[^/.]+$/, "") + "." + selectedFormat.extension);
+  const handleSaveAudioChange = (value: boolean) => {
+    setSaveAudio(value);
+    localStorage.setItem(SAVE_AUDIO_KEY, String(value));
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    await history.remove(entry.id);
+    await refreshHistory();
+  };
+
+  const handleClearHistory = async () => {
+    await history.clear();
+    await refreshHistory();
+  };
+
+  const handleConvertAgain = (entry: HistoryEntry) => {
+    reuseRef.current = entry;
+    inputRef.current?.click();
+  };
+
+  const handleDownloadItem = (item: QueueItem) => {
+    item.outputs?.forEach(output => downloadBlob(output.blob, output.name));
+  };
+
+  const handleCancel = () => {
+    const wasLoading = status === "loading";
+    abortRef.current?.abort();
+    if (wasLoading) {
+      handleReset();
+    }
+  };
+
+  const audioStreams = mediaInfo ? getAudioStreams(mediaInfo) : [];
+  const subtitleStreams = mediaInfo ? getSubtitleStreams(mediaInfo) : [];
+  const hasAudioTrack = mediaInfo ? audioStreams.length > 0 : true;
+  const selectedStream = audioStreams.find(stream => stream.index === selectedTrack);
+  const selectedChannels = selectedStream ? channelNames(selectedStream.channelLayout, selectedStream.channels) : [];
+  const copyTarget = selectedStream ? getCopyTarget(selectedStream.codec) : null;
+  const copyHint = selectedTrack === "all"
+    ? "Each track is saved in a container that matches its codec."
+    : copyTarget
+    ? `Source is ${selectedStream!.codec.toUpperCase()}, saved as .${copyTarget.extension} without quality loss.`
+    : `This audio can't be copied as-is and will be encoded to ${selectedFormat.name}.`;
+
+  const queuedItems = queue.filter(item => item.status === "queued");
+  const completedItems = queue.filter(item => item.status === "done");
+  const failedItems = queue.filter(item => item.status === "error");
+  const diagnosis = error ? diagnoseError(error, errorLogs) : null;
+  const previousConversion = currentFile ? findPreviousConversion(historyEntries, currentFile) : undefined;
+
+  const tagErrors = validateTags(tags);
+  const trimErrors = validateTrim(trim, mediaInfo?.duration ?? null);
+  const loudnessErrors = validateLoudness(loudness);
+  const filterErrors = validateFilterChain(filterChain);
+  const splitErrors = validateSplit(split, mediaInfo?.chapters ?? []);
+  const channelErrors = selectedStream ? validateChannels(channels, selectedChannels) : [];
+  const namingErrors = validateNamingPattern(namingPattern);
+  const canConvert = hasAudioTrack
+    && namingErrors.length === 0
+    && (keepOriginal || settingsErrors.length === 0)
+    && additionalSettingsValid
+    && tagErrors.length === 0
+    && trimErrors.length === 0
+    && loudnessErrors.length === 0
+    && filterErrors.length === 0
+    && splitErrors.length === 0
+    && channelErrors.length === 0;
+
+  const renderAdvancedSettings = (format: AudioFormat) => {
+    const settings = settingsFor(format);
+    return format.capabilities && settings && (
+      <AdvancedSettings
+        key={format.id}
+        format={format}
+        settings={settings}
+        errors={settingsErrorsFor(format)}
+        disabled={batchRunning}
+        onChange={(changed) => setSettingsByFormat(prev => ({ ...prev, [format.id]: changed }))}
+      />
+    );
+  };
+
+  const currentPresetSettings = (): PresetSettings => ({
+    format: selectedFormat.id,
+    settings: encodingSettings,
+    additionalFormats: additionalChoices,
+    keepOriginal,
+    channels,
+    filters: filterChain,
+    loudness,
+    naming: namingPattern,
+    tags: presetTags(tags),
+  });
+
+  const handleSavePreset = (name: string) => {
+    const data = { name: name.trim() || activePreset?.name || "", settings: currentPresetSettings() };
+    const errors = [...validatePresetName(data.name), ...(data.name ? validatePreset(data, engine.formats) : [])];
+    setPresetErrors(errors);
+    setPresetMessage(null);
+    if (errors.length > 0) return;
+    const saved = presetStore.save(data.name, data.settings);
+    setPresets(presetStore.list());
+    setActivePresetId(saved.id);
+    presetStore.setLastUsed(saved.id);
+    setPresetMessage(`Saved "${saved.name}".`);
+  };
+
+  const handleDeletePreset = (preset: Preset) => {
+    presetStore.remove(preset.id);
+    setPresets(presetStore.list());
+    setActivePresetId(null);
+    setPresetMessage(null);
+  };
+
+  const handleExportPresets = () => {
+    downloadBlob(new Blob([exportPresets(presets)], { type: "application/json" }), "converter-presets.json");
+  };
+
+  const handleImportPresets = async (file: File) => {
+    setPresetMessage(null);
+    const { presets: imported, errors } = readPresetFile(await file.text(), engine.formats);
+    setPresetErrors(errors);
+    if (errors.length > 0) return;
+    presetStore.add(imported);
+    setPresets(presetStore.list());
+    setPresetMessage(imported.length === 1 ? `Imported "${imported[0].name}".` : `Imported ${imported.length} presets.`);
+  };
+
+  const handleFormatClick = (format: AudioFormat) => {
+    if (!multiFormat) {
+      setSelectedFormat(format);
+    } else if (format.id === selectedFormat.id) {
+      // At least one format stays selected; the next one picked takes over.
+      if (additionalFormats.length > 0) {
+        setSelectedFormat(additionalFormats[0]);
+        setAdditionalFormats(additionalFormats.slice(1));
+      }
+    } else if (additionalFormats.some(other => other.id === format.id)) {
+      setAdditionalFormats(additionalFormats.filter(other => other.id !== format.id));
+    } else {
+      setAdditionalFormats([...additionalFormats, format]);
     }
-  }, [selectedFormat, currentFile]);
+  };
+
+  const handleMultiFormatChange = (enabled: boolean) => {
+    setMultiFormat(enabled);
+    if (!enabled) setAdditionalFormats([]);
+  };
+
+  // Mirrors how the engine names the first output, so the pattern can be checked before converting.
+  const namingPreview = (() => {
+    const sample = currentFile ?? queue[0]?.file;
+    if (!sample) return null;
+    const copying = keepOriginal && copyTarget !== null && status !== "batch";
+    const splitting = status !== "batch" && split.mode !== "none";
+    const chapter = split.mode === "chapters" ? mediaInfo?.chapters[0]?.title : undefined;
+    const length = trim.enabled ? trim.end - trim.start : mediaInfo?.duration;
+    const extension = copying ? copyTarget.extension : selectedFormat.extension;
+    const base = renderFileName(namingPattern, {
+      name: sample.name.replace(/\.[^/.]+$/, ""),
+      format: copying ? copyTarget.container : selectedFormat.name,
+      bitrate: copying ? "" : bitrateToken(selectedFormat, encodingSettings),
+      date: new Date(),
+      index: 1,
+      count: status === "batch" ? queue.length : 1,
+      chapter,
+      title: status === "batch" ? undefined : tags.title || undefined,
+      duration: !splitting && length != null ? length / playbackRate(filterChain) : undefined,
+    });
+    return splitting && !namesParts(namingPattern, chapter)
+      ? segmentFileName(base, 0, 2, extension, chapter)
+      : `${base}.${extension}`;
+  })();
+
+  const namingInput = (
+    <NamingPatternInput
+      pattern={namingPattern}
+      preview={namingPreview}
+      errors={namingErrors}
+      disabled={batchRunning}
+      onChange={setNamingPattern}
+    />
+  );
+
+  const presetPanel = (
+    <PresetPanel
+      presets={presets}
+      activeId={activePresetId}
+      errors={presetErrors}
+      message={presetMessage}
+      disabled={batchRunning}
+      onApply={(preset) => applyPreset(preset, selectedStream ? selectedChannels : null)}
+      onSave={handleSavePreset}
+      onDelete={handleDeletePreset}
+      onExport={handleExportPresets}
+      onImport={handleImportPresets}
+    />
+  );
+
+  const formatPicker = (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {multiFormat ? "Output Formats" : "Output Format"}
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={multiFormat}
+            disabled={batchRunning}
+            onChange={(e) => handleMultiFormatChange(e.target.checked)}
+            className="rounded"
+          />
+          Several formats at once
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {engine.formats.list().map((format) => {
+          const selected = outputFormats.some(other => other.id === format.id);
+          return (
+            <button
+              key={format.id}
+              onClick={() => handleFormatClick(format)}
+              disabled={batchRunning}
+              aria-pressed={selected}
+              className={`px-4 py-2 rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                selected
+                  ? "bg-blue-600 text-white shadow-md"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {format.name}
+            </button>
+          );
+        })}
+      </div>
+      {multiFormat && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          All selected formats come out of one pass, so the input is only decoded once.
+        </p>
+      )}
+    </div>
+  );
 
   return (
     <div className="w-full max-w-2xl mx-auto">
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8 border border-gray-100 dark:border-gray-700">
         {/* Idle - Upload Area */}
         {status === "idle" && (
-          <label
-            className={`flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
-              isDragging
-                ? "border-blue-500 bg-blue-100 dark:bg-blue-900/30 scale-[1.02]"
-                : "border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 hover:border-blue-400"
-            }`}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
-          >
-            <div className="flex flex-col items-center justify-center pt-5 pb-6">
-              <div className={`mb-4 transition-transform duration-300 ${isDragging ? "scale-110 -translate-y-2" : ""}`}>
-                <svg
-                  className={`w-12 h-12 ${isDragging ? "text-blue-600" : "text-blue-500"}`}
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                  />
-                </svg>
+          <>
+            <label
+              className={`flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-xl cursor-pointer transition-all duration-300 ${
+                isDragging
+                  ? "border-blue-500 bg-blue-100 dark:bg-blue-900/30 scale-[1.02]"
+                  : "border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 hover:border-blue-400"
+              }`}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
+              <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                <div className={`mb-4 transition-transform duration-300 ${isDragging ? "scale-110 -translate-y-2" : ""}`}>
+                  <svg
+                    className={`w-12 h-12 ${isDragging ? "text-blue-600" : "text-blue-500"}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                    />
+                  </svg>
+                </div>
+                <p className="mb-2 text-lg font-semibold text-gray-700 dark:text-gray-200">
+                  {isDragging ? "Drop your files here" : "Drop videos or audio files, or click to upload"}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  MP4, MKV, MOV, WebM, AVI, TS, MP3, WAV, M4A, FLAC (Max {formatFileSize(getMaxInputBytes())})
+                </p>
               </div>
-              <p className="mb-2 text-lg font-semibold text-gray-700 dark:text-gray-200">
-                {isDragging ? "Drop your video here" : "Drop video or click to upload"}
-              </p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                MP4, AVI, MOV, MKV, WebM (Max 500MB)
-              </p>
-            </div>
-            <input
-              ref={inputRef}
-              type="file"
-              className="hidden"
-              accept="video/*"
-              onChange={handleFileSelect}
-            />
-          </label>
+              <input
+                ref={inputRef}
+                type="file"
+                className="hidden"
+                accept={INPUT_ACCEPT}
+                multiple
+                onChange={handleFileSelect}
+              />
+            </label>
+
+            {(historyEntries.length > 0 || historyError) && (
+              <div className="mt-6">
+                <HistoryPanel
+                  entries={historyEntries}
+                  usage={storageUsage}
+                  error={historyError}
+                  saveAudio={saveAudio}
+                  onSaveAudioChange={handleSaveAudioChange}
+                  loadOutput={(entry, index) => history.getOutput(entry.id, index)}
+                  onDelete={handleDeleteHistory}
+                  onClear={handleClearHistory}
+                  onConvertAgain={handleConvertAgain}
+                />
+              </div>
+            )}
+          </>
         )}
 
         {/* Loading */}
@@ -542,6 +1218,13 @@ export default function VideoToAudioConverter() {
                 ? "Loading converter for the first time..."
                 : "Processing in your browser"}
             </p>
+
+            <button
+              onClick={handleCancel}
+              className="mt-6 px-6 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -552,12 +1235,13 @@ export default function VideoToAudioConverter() {
               <div className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 px-4 py-3 rounded-lg">
                 <div className="flex items-center gap-3">
                   <svg className="w-8 h-8 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={inputKind === "audio" ? AUDIO_ICON_PATH : VIDEO_ICON_PATH} />
                   </svg>
                   <div>
                     <p className="font-medium text-gray-800 dark:text-white">{fileInfo.name}</p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {formatFileSize(fileInfo.size)} • {formatTime(videoDuration)}
+                      {inputKind === "audio" ? "Audio" : "Video"} • {formatFileSize(fileInfo.size)}
+                      {mediaInfo?.duration != null && ` • ${formatTime(mediaInfo.duration)}`}
                     </p>
                   </div>
                 </div>
@@ -572,27 +1256,153 @@ export default function VideoToAudioConverter() {
               </div>
             )}
 
-            {/* Format Selection */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Output Format
-              </label>
-              <div className="flex flex-wrap gap-2">
-                {AUDIO_FORMATS.map((format) => (
-                  <button
-                    key={format.id}
-                    onClick={() => setSelectedFormat(format)}
-                    className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                      selectedFormat.id === format.id
-                        ? "bg-blue-600 text-white shadow-md"
-                        : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-                    }`}
-                  >
-                    {format.name}
-                  </button>
-                ))}
+            {historyNotice && (
+              <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 px-4 py-2 rounded-lg">
+                {historyNotice}
+              </p>
+            )}
+
+            {previousConversion && previousConversion.id !== appliedHistoryId && (
+              <div className="flex items-center justify-between gap-3 text-sm text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20 px-4 py-2 rounded-lg">
+                <span>
+                  You converted this file to {previousConversion.formatName} on {new Date(previousConversion.createdAt).toLocaleDateString()}.
+                </span>
+                <button
+                  type="button"
+                  onClick={() => applyHistorySettings(previousConversion, mediaInfo)}
+                  className="flex-shrink-0 font-medium hover:underline"
+                >
+                  Use the same settings
+                </button>
               </div>
-            </div>
+            )}
+
+            {mediaInfo && <MediaInfoPanel info={mediaInfo} />}
+
+            {audioStreams.length > 1 && selectedTrack !== null && (
+              <AudioTrackPicker
+                streams={audioStreams}
+                value={selectedTrack}
+                onChange={setSelectedTrack}
+              />
+            )}
+
+            {selectedStream && availableChannelModes(selectedChannels).length > 1 && (
+              <ChannelPanel
+                settings={channels}
+                names={selectedChannels}
+                layout={selectedStream.channelLayout}
+                errors={channelErrors}
+                onChange={setChannels}
+              />
+            )}
+
+            {hasAudioTrack && subtitleStreams.length > 0 && (
+              <SubtitlePanel
+                streams={subtitleStreams}
+                selected={subtitleSelection}
+                format={subtitleFormat}
+                exporting={subtitleExporting}
+                error={subtitleError}
+                onSelectedChange={setSubtitleSelection}
+                onFormatChange={setSubtitleFormat}
+                onExport={handleExportSubtitle}
+              />
+            )}
+
+            {hasAudioTrack && mediaInfo?.duration && (
+              <WaveformTrimmer
+                duration={mediaInfo.duration}
+                trim={trim}
+                errors={trimErrors}
+                onChange={setTrim}
+                peaks={waveform}
+                peaksLoading={waveformLoading}
+                peaksError={waveformError}
+                onLoadPeaks={loadWaveform}
+                previewUrl={previewUrl}
+                previewLoading={previewLoading}
+                onPreview={handlePreviewSelection}
+              />
+            )}
+
+            {hasAudioTrack && mediaInfo?.duration && (
+              <SplitPanel
+                settings={split}
+                chapters={mediaInfo.chapters}
+                rangeLength={trim.enabled ? trim.end - trim.start : mediaInfo.duration}
+                errors={splitErrors}
+                onChange={setSplit}
+              />
+            )}
+
+            {presetPanel}
+
+            {formatPicker}
+
+            {hasAudioTrack && namingInput}
+
+            {hasAudioTrack && (
+              <label className="flex items-start gap-3 bg-gray-50 dark:bg-gray-700 px-4 py-3 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepOriginal}
+                  onChange={(e) => setKeepOriginal(e.target.checked)}
+                  className="mt-0.5 text-blue-600 rounded"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-800 dark:text-gray-200">
+                    Keep original audio (no re-encode)
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {keepOriginal
+                      ? `${copyHint} If copying fails, ${selectedFormat.name} is used instead.`
+                      : "Faster and lossless when the source codec fits an audio container."}
+                  </span>
+                </span>
+              </label>
+            )}
+
+            {hasAudioTrack && !keepOriginal && renderAdvancedSettings(selectedFormat)}
+
+            {hasAudioTrack && additionalFormats.map(renderAdvancedSettings)}
+
+            {hasAudioTrack && (
+              <FilterChainPanel
+                chain={filterChain}
+                errors={filterErrors}
+                onChange={setFilterChain}
+                previewSeconds={FILTER_PREVIEW_SECONDS}
+                previewUrl={filterPreviewUrl}
+                previewLoading={filterPreviewLoading}
+                previewError={filterPreviewError}
+                onPreview={handlePreviewFilters}
+              />
+            )}
+
+            {hasAudioTrack && (
+              <LoudnessPanel settings={loudness} errors={loudnessErrors} onChange={setLoudness} />
+            )}
+
+            {hasAudioTrack && (
+              <TagEditor
+                tags={tags}
+                errors={tagErrors}
+                onChange={setTags}
+                tagSupport={keepOriginal && copyTarget
+                  ? engine.formats.list().find(f => f.extension === copyTarget.extension)?.tags
+                  : selectedFormat.tags}
+                formatName={keepOriginal && copyTarget ? copyTarget.container : selectedFormat.name}
+                cover={cover}
+                coverError={coverError}
+                canGrabFrame={mediaInfo ? hasVideo(mediaInfo) : false}
+                grabbingFrame={grabbingFrame}
+                duration={mediaInfo?.duration ?? null}
+                onCoverUpload={handleCoverUpload}
+                onGrabFrame={handleGrabFrame}
+                onRemoveCover={handleRemoveCover}
+              />
+            )}
 
             {/* No Audio Warning */}
             {!hasAudioTrack && (
@@ -604,7 +1414,7 @@ export default function VideoToAudioConverter() {
                   <div>
                     <p className="text-sm font-medium text-red-700 dark:text-red-300">No audio track found</p>
                     <p className="text-sm text-red-600 dark:text-red-400 mt-1">
-                      This video file does not contain an audio track. Audio extraction is not possible.
+                      This file does not contain an audio track. Audio extraction is not possible.
                     </p>
                   </div>
                 </div>
@@ -612,7 +1422,7 @@ export default function VideoToAudioConverter() {
                   onClick={handleReset}
                   className="mt-4 w-full py-2.5 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  Convert Another Video
+                  Convert Another File
                 </button>
               </div>
             )}
@@ -620,9 +1430,9 @@ export default function VideoToAudioConverter() {
             {/* Convert Button */}
             <button
               onClick={startConversion}
-              disabled={!hasAudioTrack}
+              disabled={!canConvert}
               className={`w-full py-4 font-semibold rounded-xl transition-all ${
-                hasAudioTrack
+                canConvert
                   ? "bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-lg hover:from-blue-700 hover:to-blue-800 hover:shadow-xl transform hover:-translate-y-0.5"
                   : "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed"
               }`}
@@ -632,7 +1442,13 @@ export default function VideoToAudioConverter() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                {hasAudioTrack ? `Convert to ${selectedFormat.name}` : "No Audio to Extract"}
+                {!hasAudioTrack
+                  ? "No Audio to Extract"
+                  : selectedTrack === "all"
+                  ? `Convert ${audioStreams.length} Tracks${keepOriginal ? "" : ` to ${formatNames}`}`
+                  : keepOriginal && copyTarget
+                  ? `Extract Original Audio (.${copyTarget.extension})${additionalFormats.length > 0 ? ` + ${additionalFormats.map(format => format.name).join(" + ")}` : ""}`
+                  : `Convert to ${formatNames}`}
               </span>
             </button>
           </div>
@@ -645,11 +1461,13 @@ export default function VideoToAudioConverter() {
               <div className="mb-6 text-center">
                 <div className="inline-flex items-center gap-2 bg-gray-50 dark:bg-gray-700 px-4 py-2 rounded-lg">
                   <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={inputKind === "audio" ? AUDIO_ICON_PATH : VIDEO_ICON_PATH} />
                   </svg>
                   <span className="font-medium text-gray-700 dark:text-gray-200">{fileInfo.name}</span>
                   <span className="text-gray-400">→</span>
-                  <span className="text-blue-600 dark:text-blue-400 font-medium">{selectedFormat.name}</span>
+                  <span className="text-blue-600 dark:text-blue-400 font-medium">
+                    {keepOriginal ? ["Original audio", ...additionalFormats.map(format => format.name)].join(" + ") : formatNames}
+                  </span>
                 </div>
               </div>
             )}
@@ -657,7 +1475,7 @@ export default function VideoToAudioConverter() {
             <div className="w-full max-w-md mb-4">
               <div className="flex justify-between mb-2">
                 <span className="text-sm font-medium text-gray-700 dark:text-gray-200">
-                  Converting...
+                  {conversionPhase ?? "Converting..."}
                 </span>
                 <span className="text-sm font-medium text-blue-600 dark:text-blue-400">
                   {progress}%
@@ -671,20 +1489,28 @@ export default function VideoToAudioConverter() {
               </div>
             </div>
 
-            {fileInfo && progress < 100 && (
+            {progressStats?.speed && (
               <p className="text-sm text-gray-400 dark:text-gray-500 mb-4">
-                Estimated time: {estimateConversionTime(fileInfo.size * (1 - progress / 100))}
+                Processing speed: {formatSpeed(progressStats.speed)}
+                {progressStats.remaining !== null && progress < 100 && ` • About ${formatTime(Math.ceil(progressStats.remaining))} left`}
               </p>
             )}
 
             <p className="text-sm text-gray-500 dark:text-gray-400">
               Processing in your browser - your file never leaves your device
             </p>
+
+            <button
+              onClick={handleCancel}
+              className="mt-6 px-6 py-2.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
         {/* Done */}
-        {status === "done" && audioUrl && (
+        {status === "done" && outputs.length > 0 && (
           <div className="flex flex-col items-center justify-center py-8">
             <div className="text-green-500 mb-4">
               <svg className="w-16 h-16" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -695,45 +1521,248 @@ export default function VideoToAudioConverter() {
             <p className="text-xl font-semibold text-gray-800 dark:text-white mb-2">
               Conversion Complete!
             </p>
-            <p className="text-gray-500 dark:text-gray-400 mb-1">{fileName}</p>
-            <p className="text-sm text-blue-600 dark:text-blue-400 mb-6">
-              Output size: {formatFileSize(outputSize)}
-            </p>
 
-            <div className="flex gap-4 mb-6">
-              <button
-                onClick={handleDownload}
-                className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
-              >
-                <span className="flex items-center gap-2">
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                  </svg>
-                  Download {selectedFormat.name}
-                </span>
-              </button>
-              <button
-                onClick={handleReset}
-                className="px-6 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-              >
-                Convert Another
-              </button>
+            {conversionNote && (
+              <p className="text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 px-4 py-2 rounded-lg mb-4 text-center max-w-md">
+                {conversionNote}
+              </p>
+            )}
+
+            {outputs.length === 1 ? (
+              <>
+                <p className="text-gray-500 dark:text-gray-400 mb-1">{outputs[0].name}</p>
+                <p className={`text-sm text-blue-600 dark:text-blue-400 ${outputs[0].loudness ? "mb-2" : "mb-6"}`}>
+                  Output size: {formatFileSize(outputs[0].blob.size)}
+                </p>
+                {outputs[0].loudness && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-6 text-center">
+                    Measured {describeLoudness(outputs[0].loudness.input)} → normalized to {loudness.integrated} LUFS
+                  </p>
+                )}
+
+                <div className="flex gap-4 mb-6">
+                  <button
+                    onClick={() => handleDownload(outputs[0])}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
+                  >
+                    <span className="flex items-center gap-2">
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      Download {outputs[0].formatName}
+                    </span>
+                  </button>
+                  <button
+                    onClick={handleReset}
+                    className="px-6 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Convert Another
+                  </button>
+                </div>
+
+                <div className="w-full max-w-md">
+                  {canPreview(outputs[0].previewType) ? (
+                    <>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 text-center">Preview:</p>
+                      <audio
+                        key={outputs[0].url}
+                        controls
+                        controlsList="nodownload"
+                        className="w-full"
+                        preload="auto"
+                        playsInline
+                      >
+                        <source src={outputs[0].url} type={outputs[0].blob.type} />
+                        Your browser does not support the audio element.
+                      </audio>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                      Your browser can&apos;t play {outputs[0].formatName} files. Download it to listen.
+                    </p>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-blue-600 dark:text-blue-400 mb-6">
+                  {outputs.length} files • {formatFileSize(outputs.reduce((total, output) => total + output.blob.size, 0))}
+                </p>
+
+                <ul className="w-full space-y-3 mb-6">
+                  {outputs.map((output) => (
+                    <li key={output.url} className="bg-gray-50 dark:bg-gray-700 px-4 py-3 rounded-lg">
+                      <div className="flex items-center justify-between gap-3 mb-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-800 dark:text-white truncate">{output.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {output.label && `${output.label} • `}{formatFileSize(output.blob.size)}
+                          </p>
+                          {output.loudness && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              Measured {describeLoudness(output.loudness.input)}
+                            </p>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => handleDownload(output)}
+                          className="flex-shrink-0 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Download
+                        </button>
+                      </div>
+                      {output.kind === "subtitle" ? null : canPreview(output.previewType) ? (
+                        <audio controls controlsList="nodownload" className="w-full h-10" preload="none" playsInline>
+                          <source src={output.url} type={output.blob.type} />
+                        </audio>
+                      ) : (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Preview isn&apos;t available for {output.formatName} in this browser.
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="flex gap-4">
+                  <button
+                    onClick={handleDownloadOutputsZip}
+                    disabled={zipping}
+                    className="px-6 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg disabled:opacity-60"
+                  >
+                    {zipping ? "Creating ZIP..." : `Download All (${outputs.length}) as ZIP`}
+                  </button>
+                  <button
+                    onClick={handleReset}
+                    className="px-6 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Convert Another
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Batch Queue */}
+        {status === "batch" && (
+          <div className="space-y-6">
+            {presetPanel}
+
+            {formatPicker}
+
+            {outputFormats.map(renderAdvancedSettings)}
+
+            {namingInput}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {queue.length} files
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {completedItems.length} done{failedItems.length > 0 && ` • ${failedItems.length} failed`}
+                </p>
+              </div>
+              <ul className="space-y-2 max-h-96 overflow-y-auto">
+                {queue.map((item) => (
+                  <li
+                    key={item.id}
+                    className="flex items-center gap-3 bg-gray-50 dark:bg-gray-700 px-4 py-3 rounded-lg"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-800 dark:text-white truncate">{item.file.name}</p>
+                      {item.status === "converting" && (
+                        <div className="mt-1.5">
+                          <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-1.5 overflow-hidden">
+                            <div
+                              className="bg-blue-500 h-1.5 rounded-full transition-all duration-200"
+                              style={{ width: `${Math.max(progress, 2)}%` }}
+                            ></div>
+                          </div>
+                          <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                            {coreDownloadMB !== null ? `Downloading converter (${coreDownloadMB}MB downloaded)` : `${progress}%`}
+                          </p>
+                        </div>
+                      )}
+                      {item.status === "error" && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-1 truncate">{item.error}</p>
+                      )}
+                      {item.status === "done" && item.outputs && (
+                        <p className="text-xs text-green-600 dark:text-green-400 mt-1 truncate">
+                          {item.outputs.map(output => output.name).join(", ")} • {formatFileSize(item.outputs.reduce((total, output) => total + output.blob.size, 0))}
+                        </p>
+                      )}
+                      {item.status === "queued" && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {formatFileSize(item.file.size)} • Waiting
+                        </p>
+                      )}
+                    </div>
+                    {item.status === "done" && (
+                      <button
+                        onClick={() => handleDownloadItem(item)}
+                        className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Download
+                      </button>
+                    )}
+                    {item.status === "error" && !batchRunning && (
+                      <button
+                        onClick={() => retryQueueItems([item])}
+                        className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
             </div>
 
-            <div className="w-full max-w-md">
-              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2 text-center">Preview:</p>
-              <audio
-                key={audioUrl}
-                controls
-                controlsList="nodownload"
-                className="w-full"
-                preload="auto"
-                playsInline
+            {batchRunning ? (
+              <button
+                onClick={handleCancel}
+                className="w-full py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
               >
-                <source src={audioUrl || ""} type={selectedFormat.mimeType} />
-                Your browser does not support the audio element.
-              </audio>
-            </div>
+                Cancel
+              </button>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                {queuedItems.length > 0 && (
+                  <button
+                    onClick={startBatch}
+                    disabled={settingsErrors.length > 0 || !additionalSettingsValid || namingErrors.length > 0}
+                    className="flex-1 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold rounded-xl shadow-lg hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    Convert {queuedItems.length} files to {formatNames}
+                  </button>
+                )}
+                {failedItems.length > 0 && (
+                  <button
+                    onClick={() => retryQueueItems(failedItems)}
+                    className="flex-1 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Retry Failed ({failedItems.length})
+                  </button>
+                )}
+                {completedItems.length > 0 && (
+                  <button
+                    onClick={handleDownloadZip}
+                    disabled={zipping}
+                    className="flex-1 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold rounded-xl shadow-lg hover:from-blue-700 hover:to-blue-800 transition-all disabled:opacity-60"
+                  >
+                    {zipping ? "Creating ZIP..." : `Download All (${completedItems.length}) as ZIP`}
+                  </button>
+                )}
+                <button
+                  onClick={handleReset}
+                  className="flex-1 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  {queuedItems.length > 0 ? "Clear" : "Convert More"}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -746,15 +1775,32 @@ export default function VideoToAudioConverter() {
               </svg>
             </div>
             <p className="text-xl font-semibold text-gray-800 dark:text-white mb-2">
-              Conversion Failed
+              {diagnosis?.title ?? "Conversion Failed"}
             </p>
-            <p className="text-gray-500 dark:text-gray-400 mb-6 text-center max-w-md">{error}</p>
+            <p className="text-gray-500 dark:text-gray-400 mb-2 text-center max-w-md break-words">{error}</p>
+            {diagnosis && (diagnosis.category !== "unknown" || errorLogs.length > 0) && (
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-6 text-center max-w-md">{diagnosis.advice}</p>
+            )}
             <button
               onClick={handleReset}
               className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"
             >
               Try Again
             </button>
+            {errorLogs.length > 0 && (
+              <div className="w-full max-w-md mt-6">
+                <LogPanel
+                  logs={errorLogs}
+                  header={[
+                    `Error: ${error}`,
+                    `Category: ${diagnosis?.category}`,
+                    ...(fileInfo ? [`File: ${fileInfo.name} (${fileInfo.type || "unknown type"}, ${formatFileSize(fileInfo.size)})`] : []),
+                    `Browser: ${navigator.userAgent}`,
+                  ]}
+                  fileName={`${fileInfo ? fileInfo.name.replace(/\.[^/.]+$/, "") : "converter"}-ffmpeg-log.txt`}
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
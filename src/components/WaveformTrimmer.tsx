@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from "react";
+import { formatTimestamp, parseTimeInput, type TrimSettings } from "@/lib/trim";
+
+interface WaveformTrimmerProps {
+  duration: number;
+  trim: TrimSettings;
+  errors: string[];
+  onChange: (trim: TrimSettings) => void;
+  peaks: number[] | null;
+  peaksLoading: boolean;
+  /** Set when decoding the waveform failed; it's only tried again on request. */
+  peaksError: boolean;
+  onLoadPeaks: () => void;
+  previewUrl: string | null;
+  previewLoading: boolean;
+  onPreview: (edge: "start" | "end") => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200";
+const labelClass = "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+interface TimeInputProps {
+  label: string;
+  value: number;
+  onCommit: (seconds: number) => void;
+}
+
+/** Free-form timestamp field that only reports back once the text parses. */
+function TimeInput({ label, value, onCommit }: TimeInputProps) {
+  const [text, setText] = useState(formatTimestamp(value));
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setText(formatTimestamp(value));
+    setInvalid(false);
+  }, [value]);
+
+  const commit = () => {
+    const seconds = parseTimeInput(text);
+    if (seconds === null) {
+      setInvalid(true);
+      return;
+    }
+    onCommit(seconds);
+    setText(formatTimestamp(seconds));
+    setInvalid(false);
+  };
+
+  return (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="text"
+        className={`${inputClass} font-mono ${invalid ? "border-red-400 dark:border-red-500" : ""}`}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+        }}
+      />
+    </div>
+  );
+}
+
+export default function WaveformTrimmer({
+  duration,
+  trim,
+  errors,
+  onChange,
+  peaks,
+  peaksLoading,
+  peaksError,
+  onLoadPeaks,
+  previewUrl,
+  previewLoading,
+  onPreview,
+}: WaveformTrimmerProps) {
+  const [open, setOpen] = useState(false);
+  const [dragging, setDragging] = useState<"start" | "end" | null>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+
+  // Decoding the waveform takes a full pass over the audio, so only do it once asked for.
+  useEffect(() => {
+    if (open && trim.enabled && !peaks && !peaksLoading && !peaksError) {
+      onLoadPeaks();
+    }
+  }, [open, trim.enabled, peaks, peaksLoading, peaksError, onLoadPeaks]);
+
+  const update = (changes: Partial<TrimSettings>) => onChange({ ...trim, ...changes });
+
+  const timeAt = (clientX: number): number => {
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return Math.round(ratio * duration * 1000) / 1000;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const time = timeAt(e.clientX);
+    // Grab whichever handle is closer to the pointer.
+    const edge = Math.abs(time - trim.start) <= Math.abs(time - trim.end) ? "start" : "end";
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(edge);
+    update(edge === "start" ? { start: Math.min(time, trim.end) } : { end: Math.max(time, trim.start) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    const time = timeAt(e.clientX);
+    update(dragging === "start" ? { start: Math.min(time, trim.end) } : { end: Math.max(time, trim.start) });
+  };
+
+  const startPercent = (trim.start / duration) * 100;
+  const endPercent = (trim.end / duration) * 100;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span>Trim {trim.enabled && `(${formatTimestamp(trim.end - trim.start)})`}</span>
+        <svg className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={trim.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="rounded"
+            />
+            Only convert part of the file
+          </label>
+
+          {trim.enabled && (
+            <>
+              <div
+                ref={waveformRef}
+                className="relative h-20 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 overflow-hidden cursor-ew-resize select-none touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+                onPointerCancel={() => setDragging(null)}
+              >
+                {peaks ? (
+                  <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none">
+                    {peaks.map((peak, i) => {
+                      const height = Math.max(1, peak * 96);
+                      return <rect key={i} x={i} y={50 - height / 2} width={0.8} height={height} className="fill-gray-400 dark:fill-gray-500" />;
+                    })}
+                  </svg>
+                ) : (
+                  <span className="absolute inset-0 flex items-center justify-center gap-2 text-xs text-gray-400">
+                    {peaksLoading ? "Drawing waveform..." : "Waveform unavailable"}
+                    {peaksError && !peaksLoading && (
+                      <button
+                        type="button"
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={onLoadPeaks}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </span>
+                )}
+                <div
+                  className="absolute inset-y-0 bg-blue-500/20 border-x-2 border-blue-500 pointer-events-none"
+                  style={{ left: `${startPercent}%`, width: `${Math.max(0, endPercent - startPercent)}%` }}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <TimeInput label="Start" value={trim.start} onCommit={(start) => update({ start })} />
+                <TimeInput label="End" value={trim.end} onCommit={(end) => update({ end })} />
+                <div>
+                  <label className={labelClass}>Fade in (s)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className={inputClass}
+                    value={trim.fadeIn}
+                    onChange={(e) => update({ fadeIn: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Fade out (s)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className={inputClass}
+                    value={trim.fadeOut}
+                    onChange={(e) => update({ fadeOut: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4 text-sm">
+                <button
+                  type="button"
+                  disabled={previewLoading || errors.length > 0}
+                  onClick={() => onPreview("start")}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  Play start
+                </button>
+                <button
+                  type="button"
+                  disabled={previewLoading || errors.length > 0}
+                  onClick={() => onPreview("end")}
+                  className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  Play end
+                </button>
+                {previewLoading && <span className="text-xs text-gray-500 dark:text-gray-400">Rendering preview...</span>}
+              </div>
+              {previewUrl && <audio key={previewUrl} controls autoPlay src={previewUrl} className="w-full" />}
+            </>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1">
+          {errors.map(error => (
+            <li key={error} className="text-xs text-red-600 dark:text-red-400">{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
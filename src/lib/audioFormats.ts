@@ -0,0 +1,226 @@
+export type RateControl = "cbr" | "vbr";
+
+export interface VbrScale {
+  min: number;
+  max: number;
+  /** True when a lower number means higher quality (LAME's -q:a). */
+  lowerIsBetter: boolean;
+}
+
+export interface FormatCapabilities {
+  rateControl: RateControl[];
+  /** Allowed constant bitrates in kb/s. */
+  bitrates?: number[];
+  vbr?: VbrScale;
+  sampleRates: number[];
+  maxChannels: number;
+  bitDepths?: number[];
+  /** Codec per bit depth, for PCM formats where the depth is part of the codec. */
+  bitDepthCodecs?: Record<number, string>;
+  /** `-sample_fmt` per bit depth, for lossless codecs that take one. */
+  bitDepthSampleFormats?: Record<number, string>;
+}
+
+export interface EncodingSettings {
+  rateControl: RateControl;
+  /** Constant bitrate in kb/s. */
+  bitrate: number;
+  vbrQuality: number;
+  /** Output sample rate in Hz, or null to keep the source rate. */
+  sampleRate: number | null;
+  /** Output channel count, or null to keep the source layout. */
+  channels: number | null;
+  bitDepth: number | null;
+}
+
+export interface TagSupport {
+  coverArt: boolean;
+  /** Muxer options needed for the tags to be written. */
+  args?: string[];
+}
+
+export interface AudioFormat {
+  id: string;
+  name: string;
+  extension: string;
+  codec: string;
+  mimeType: string;
+  lossless?: boolean;
+  /** MIME type with codecs, for checking whether the browser can preview the output. */
+  previewMimeType?: string;
+  /** Extra output options the format always needs. */
+  extraArgs?: string[];
+  /** Absent when the container can't carry tags at all. */
+  tags?: TagSupport;
+  capabilities?: FormatCapabilities;
+  defaults?: EncodingSettings;
+}
+
+const LOSSY_SAMPLE_RATES = [8000, 11025, 16000, 22050, 24000, 32000, 44100, 48000];
+const PCM_SAMPLE_RATES = [8000, 16000, 22050, 32000, 44100, 48000, 88200, 96000, 192000];
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  {
+    id: "mp3",
+    name: "MP3",
+    extension: "mp3",
+    codec: "libmp3lame",
+    mimeType: "audio/mpeg",
+    tags: { coverArt: true, args: ["-id3v2_version", "3"] },
+    capabilities: {
+      rateControl: ["vbr", "cbr"],
+      bitrates: [32, 48, 64, 96, 128, 160, 192, 224, 256, 320],
+      vbr: { min: 0, max: 9, lowerIsBetter: true },
+      sampleRates: LOSSY_SAMPLE_RATES,
+      maxChannels: 2,
+    },
+    defaults: { rateControl: "vbr", bitrate: 192, vbrQuality: 2, sampleRate: null, channels: null, bitDepth: null },
+  },
+  {
+    id: "wav",
+    name: "WAV",
+    extension: "wav",
+    codec: "pcm_s16le",
+    mimeType: "audio/wav",
+    lossless: true,
+    tags: { coverArt: false },
+    capabilities: {
+      rateControl: [],
+      sampleRates: PCM_SAMPLE_RATES,
+      maxChannels: 8,
+      bitDepths: [16, 24, 32],
+      bitDepthCodecs: { 16: "pcm_s16le", 24: "pcm_s24le", 32: "pcm_s32le" },
+    },
+    defaults: { rateControl: "cbr", bitrate: 0, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: 16 },
+  },
+  {
+    id: "aac",
+    name: "AAC",
+    extension: "m4a",
+    codec: "aac",
+    mimeType: "audio/mp4",
+    tags: { coverArt: true },
+    capabilities: {
+      rateControl: ["cbr"],
+      bitrates: [32, 48, 64, 96, 128, 160, 192, 256, 320],
+      sampleRates: [...LOSSY_SAMPLE_RATES, 88200, 96000],
+      maxChannels: 8,
+    },
+    defaults: { rateControl: "cbr", bitrate: 192, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: null },
+  },
+  {
+    id: "ogg",
+    name: "OGG",
+    extension: "ogg",
+    codec: "libvorbis",
+    mimeType: "audio/ogg",
+    tags: { coverArt: false },
+    capabilities: {
+      rateControl: ["vbr", "cbr"],
+      bitrates: [64, 96, 128, 160, 192, 256, 320, 500],
+      vbr: { min: -1, max: 10, lowerIsBetter: false },
+      sampleRates: LOSSY_SAMPLE_RATES,
+      maxChannels: 8,
+    },
+    defaults: { rateControl: "vbr", bitrate: 192, vbrQuality: 6, sampleRate: null, channels: null, bitDepth: null },
+  },
+  {
+    id: "flac",
+    name: "FLAC",
+    extension: "flac",
+    codec: "flac",
+    mimeType: "audio/flac",
+    lossless: true,
+    tags: { coverArt: true },
+    capabilities: {
+      rateControl: [],
+      sampleRates: PCM_SAMPLE_RATES,
+      maxChannels: 8,
+      bitDepths: [16, 24],
+      bitDepthSampleFormats: { 16: "s16", 24: "s32" },
+    },
+    defaults: { rateControl: "cbr", bitrate: 0, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: 16 },
+  },
+  {
+    id: "opus",
+    name: "Opus",
+    extension: "opus",
+    codec: "libopus",
+    mimeType: "audio/ogg",
+    previewMimeType: 'audio/ogg; codecs="opus"',
+    tags: { coverArt: false },
+    capabilities: {
+      rateControl: ["vbr", "cbr"],
+      bitrates: [16, 24, 32, 48, 64, 96, 128, 160, 192, 256, 320, 510],
+      sampleRates: [8000, 12000, 16000, 24000, 48000],
+      maxChannels: 8,
+    },
+    defaults: { rateControl: "vbr", bitrate: 96, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: null },
+  },
+  {
+    id: "alac",
+    name: "ALAC",
+    extension: "m4a",
+    codec: "alac",
+    mimeType: "audio/mp4",
+    lossless: true,
+    previewMimeType: 'audio/mp4; codecs="alac"',
+    tags: { coverArt: true },
+    capabilities: {
+      rateControl: [],
+      sampleRates: PCM_SAMPLE_RATES,
+      maxChannels: 8,
+      bitDepths: [16, 24],
+      bitDepthSampleFormats: { 16: "s16p", 24: "s32p" },
+    },
+    defaults: { rateControl: "cbr", bitrate: 0, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: 16 },
+  },
+  {
+    id: "aiff",
+    name: "AIFF",
+    extension: "aiff",
+    codec: "pcm_s16be",
+    mimeType: "audio/aiff",
+    lossless: true,
+    tags: { coverArt: false, args: ["-write_id3v2", "1"] },
+    capabilities: {
+      rateControl: [],
+      sampleRates: PCM_SAMPLE_RATES,
+      maxChannels: 8,
+      bitDepths: [16, 24, 32],
+      bitDepthCodecs: { 16: "pcm_s16be", 24: "pcm_s24be", 32: "pcm_s32be" },
+    },
+    defaults: { rateControl: "cbr", bitrate: 0, vbrQuality: 0, sampleRate: null, channels: null, bitDepth: 16 },
+  },
+  {
+    id: "ac3",
+    name: "AC3",
+    extension: "ac3",
+    codec: "ac3",
+    mimeType: "audio/ac3",
+    capabilities: {
+      rateControl: ["cbr"],
+      bitrates: [96, 128, 160, 192, 224, 256, 320, 384, 448, 512, 576, 640],
+      sampleRates: [32000, 44100, 48000],
+      maxChannels: 6,
+    },
+    defaults: { rateControl: "cbr", bitrate: 192, vbrQuality: 0, sampleRate: 48000, channels: null, bitDepth: null },
+  },
+  {
+    id: "m4b",
+    name: "M4B",
+    extension: "m4b",
+    codec: "aac",
+    mimeType: "audio/mp4",
+    // Audiobook players navigate by chapter, so carry over the source's chapter markers.
+    extraArgs: ["-map_chapters", "0"],
+    tags: { coverArt: true },
+    capabilities: {
+      rateControl: ["cbr"],
+      bitrates: [32, 48, 64, 96, 128, 160, 192],
+      sampleRates: LOSSY_SAMPLE_RATES,
+      maxChannels: 2,
+    },
+    defaults: { rateControl: "cbr", bitrate: 64, vbrQuality: 0, sampleRate: null, channels: 1, bitDepth: null },
+  },
+];
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  availableChannelModes,
+  channelNames,
+  monoDownmixFilter,
+  planChannels,
+  stereoDownmixFilter,
+} from "@/lib/channels";
+
+const SURROUND = channelNames("5.1(side)");
+
+describe("channelNames", () => {
+  it("names the channels of known layouts and numbers the rest", () => {
+    expect(SURROUND).toEqual(["FL", "FR", "FC", "LFE", "SL", "SR"]);
+    expect(channelNames("4 channels", 4)).toEqual(["c0", "c1", "c2", "c3"]);
+    expect(channelNames(undefined)).toEqual([]);
+  });
+});
+
+describe("availableChannelModes", () => {
+  it("only offers what fits the layout", () => {
+    expect(availableChannelModes(["FC"])).toEqual(["keep"]);
+    expect(availableChannelModes(["FL", "FR"])).toEqual(["keep", "mono", "split", "single", "swap"]);
+    expect(availableChannelModes(SURROUND)).toEqual(["keep", "stereo", "mono", "split", "single"]);
+  });
+});
+
+describe("downmix filters", () => {
+  it("folds surround into stereo at -3 dB without the LFE", () => {
+    expect(stereoDownmixFilter(SURROUND)).toBe("pan=stereo|FL<FL+0.707*FC+0.707*SL|FR<FR+0.707*FC+0.707*SR");
+  });
+
+  it("mixes everything into mono", () => {
+    expect(monoDownmixFilter(["FL", "FR"])).toBe("pan=mono|c0<FL+FR");
+    expect(monoDownmixFilter(SURROUND)).toBe("pan=mono|c0<FL+FR+1.414*FC+0.707*SL+0.707*SR");
+  });
+});
+
+describe("planChannels", () => {
+  it("gives every channel its own output when splitting", () => {
+    expect(planChannels({ mode: "split", channel: "FL" }, ["FL", "FR"])).toEqual([
+      { filter: "pan=mono|c0=FL", suffix: "_FL", label: "Left" },
+      { filter: "pan=mono|c0=FR", suffix: "_FR", label: "Right" },
+    ]);
+  });
+
+  it("rejects channels the track doesn't have", () => {
+    expect(() => planChannels({ mode: "single", channel: "FC" }, ["FL", "FR"])).toThrow("Pick one of");
+    expect(() => planChannels({ mode: "swap", channel: "FL" }, SURROUND)).toThrow("channel layout");
+  });
+});
@@ -0,0 +1,171 @@
+export type ChannelMode = "keep" | "stereo" | "mono" | "split" | "single" | "swap";
+
+export interface ChannelSettings {
+  mode: ChannelMode;
+  /** Channel kept in "single" mode, by FFmpeg's name for it, e.g. `FL`. */
+  channel: string;
+}
+
+/** How one output's channels are produced; "split" gives one of these per channel. */
+export interface ChannelOutput {
+  /** `pan` filter, or null to leave the channels alone. */
+  filter: string | null;
+  /** Added to the file name, e.g. `_FL`. */
+  suffix: string;
+  label?: string;
+}
+
+export const DEFAULT_CHANNELS: ChannelSettings = { mode: "keep", channel: "FL" };
+
+// Channel order of FFmpeg's named layouts.
+const LAYOUT_CHANNELS: Record<string, string[]> = {
+  mono: ["FC"],
+  stereo: ["FL", "FR"],
+  "2.1": ["FL", "FR", "LFE"],
+  "3.0": ["FL", "FR", "FC"],
+  "3.0(back)": ["FL", "FR", "BC"],
+  "3.1": ["FL", "FR", "FC", "LFE"],
+  "4.0": ["FL", "FR", "FC", "BC"],
+  quad: ["FL", "FR", "BL", "BR"],
+  "quad(side)": ["FL", "FR", "SL", "SR"],
+  "4.1": ["FL", "FR", "FC", "LFE", "BC"],
+  "5.0": ["FL", "FR", "FC", "BL", "BR"],
+  "5.0(side)": ["FL", "FR", "FC", "SL", "SR"],
+  "5.1": ["FL", "FR", "FC", "LFE", "BL", "BR"],
+  "5.1(side)": ["FL", "FR", "FC", "LFE", "SL", "SR"],
+  "6.0": ["FL", "FR", "FC", "BC", "SL", "SR"],
+  "6.1": ["FL", "FR", "FC", "LFE", "BC", "SL", "SR"],
+  "7.0": ["FL", "FR", "FC", "BL", "BR", "SL", "SR"],
+  "7.1": ["FL", "FR", "FC", "LFE", "BL", "BR", "SL", "SR"],
+  "7.1(wide)": ["FL", "FR", "FC", "LFE", "BL", "BR", "FLC", "FRC"],
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  FL: "Front left",
+  FR: "Front right",
+  FC: "Center",
+  LFE: "LFE (subwoofer)",
+  BL: "Back left",
+  BR: "Back right",
+  BC: "Back center",
+  SL: "Side left",
+  SR: "Side right",
+  FLC: "Front left of center",
+  FRC: "Front right of center",
+};
+
+// Share of each channel in the left and right of a stereo downmix, following
+// ITU-R BS.775: center and surrounds at -3 dB, LFE left out.
+const DOWNMIX_GAINS: Record<string, [number, number]> = {
+  FL: [1, 0],
+  FR: [0, 1],
+  FC: [0.707, 0.707],
+  LFE: [0, 0],
+  BL: [0.707, 0],
+  BR: [0, 0.707],
+  BC: [0.5, 0.5],
+  SL: [0.707, 0],
+  SR: [0, 0.707],
+  FLC: [0.707, 0],
+  FRC: [0, 0.707],
+};
+
+/**
+ * FFmpeg's names for the channels of a stream, in order. Unnamed layouts
+ * (`4 channels`) get positional names, `c0`, `c1`, …; empty when unknown.
+ */
+export function channelNames(layout?: string, count?: number): string[] {
+  if (layout && LAYOUT_CHANNELS[layout]) return LAYOUT_CHANNELS[layout];
+  return Array.from({ length: count ?? 0 }, (_, i) => `c${i}`);
+}
+
+export function channelLabel(name: string, names: string[]): string {
+  if (names.length === 2 && names[0] === "FL" && names[1] === "FR") {
+    return name === "FL" ? "Left" : "Right";
+  }
+  const positional = name.match(/^c(\d+)$/);
+  return positional ? `Channel ${parseInt(positional[1], 10) + 1}` : CHANNEL_LABELS[name] ?? name;
+}
+
+/** The modes that make sense for a stream with these channels. */
+export function availableChannelModes(names: string[]): ChannelMode[] {
+  const modes: ChannelMode[] = ["keep"];
+  const named = names.every(name => DOWNMIX_GAINS[name] !== undefined);
+  if (names.length > 2 && named && names.includes("FL") && names.includes("FR")) modes.push("stereo");
+  if (names.length > 1) modes.push("mono", "split", "single");
+  if (names.length === 2) modes.push("swap");
+  return modes;
+}
+
+function mixTerms(gains: [string, number][]): string {
+  return gains
+    .filter(([, gain]) => gain > 0)
+    .map(([name, gain]) => (gain === 1 ? name : `${gain}*${name}`))
+    .join("+");
+}
+
+/** `pan` filter that folds surround down to stereo; `<` rescales so the sum can't clip. */
+export function stereoDownmixFilter(names: string[]): string {
+  const left = mixTerms(names.map(name => [name, DOWNMIX_GAINS[name][0]]));
+  const right = mixTerms(names.map(name => [name, DOWNMIX_GAINS[name][1]]));
+  return `pan=stereo|FL<${left}|FR<${right}`;
+}
+
+/** `pan` filter that mixes every channel to mono, weighted like the stereo downmix where the layout is known. */
+export function monoDownmixFilter(names: string[]): string {
+  const terms = mixTerms(names.map(name => {
+    const gains = DOWNMIX_GAINS[name];
+    return [name, gains ? Math.round((gains[0] + gains[1]) * 1000) / 1000 : 1];
+  }));
+  return `pan=mono|c0<${terms}`;
+}
+
+export function validateChannels(settings: ChannelSettings, names: string[]): string[] {
+  if (!availableChannelModes(names).includes(settings.mode)) {
+    return ["This channel option doesn't fit the selected track's channel layout."];
+  }
+  if (settings.mode === "single" && !names.includes(settings.channel)) {
+    return ["Pick one of the selected track's channels."];
+  }
+  return [];
+}
+
+/** The outputs a stream with `names` channels turns into under `settings`. */
+export function planChannels(settings: ChannelSettings, names: string[]): ChannelOutput[] {
+  const [error] = validateChannels(settings, names);
+  if (error) {
+    throw new Error(error);
+  }
+  switch (settings.mode) {
+    case "keep":
+      return [{ filter: null, suffix: "" }];
+    case "stereo":
+      return [{ filter: stereoDownmixFilter(names), suffix: "", label: "Stereo downmix" }];
+    case "mono":
+      return [{ filter: monoDownmixFilter(names), suffix: "", label: "Mono downmix" }];
+    case "swap":
+      return [{ filter: "pan=stereo|c0=c1|c1=c0", suffix: "", label: "Left and right swapped" }];
+    case "single":
+      return [{ filter: `pan=mono|c0=${settings.channel}`, suffix: `_${settings.channel}`, label: channelLabel(settings.channel, names) }];
+    case "split":
+      return names.map(name => ({ filter: `pan=mono|c0=${name}`, suffix: `_${name}`, label: channelLabel(name, names) }));
+  }
+}
+
+/** One line for the history, or empty when the channels were left alone. */
+export function describeChannels(settings: ChannelSettings): string {
+  switch (settings.mode) {
+    case "keep":
+      return "";
+    case "stereo":
+      return "Downmixed to stereo";
+    case "mono":
+      return "Downmixed to mono";
+    case "swap":
+      return "Left and right swapped";
+    case "single":
+      return `Only ${settings.channel}`;
+    case "split":
+      return "Channels split";
+  }
+}
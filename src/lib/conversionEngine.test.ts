@@ -0,0 +1,652 @@
+import { describe, expect, it } from "vitest";
+import { createConversionEngine, type FFmpegLike } from "@/lib/conversionEngine";
+import { DEFAULT_LOUDNESS } from "@/lib/loudness";
+import { defaultFilterChain } from "@/lib/filters";
+import { DEFAULT_SPLIT } from "@/lib/split";
+import { DEFAULT_TRIM } from "@/lib/trim";
+
+interface ExecResult {
+  exitCode?: number;
+  logs?: string[];
+}
+
+const PROBE_LOGS = [
+  "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/input/input.mp4':",
+  "  Duration: 00:01:00.00, start: 0.000000, bitrate: 1000 kb/s",
+  "  Chapter #0:0: start 0.000000, end 20.000000",
+  "    Metadata:",
+  "      title           : Intro",
+  "  Chapter #0:1: start 20.000000, end 60.000000",
+  "    Metadata:",
+  "      title           : Main",
+  "  Stream #0:0(und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1920x1080, 800 kb/s, 30 fps (default)",
+  "  Stream #0:1(eng): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s (default)",
+  "  Stream #0:2(fra): Audio: ac3, 48000 Hz, 5.1(side), fltp, 384 kb/s",
+  "  Stream #0:3(eng): Subtitle: mov_text (tx3g / 0x67337874), 0 kb/s (default)",
+  "  Stream #0:4(deu): Subtitle: hdmv_pgs_subtitle",
+  "At least one output file must be specified",
+];
+
+const LOUDNORM_LOGS = [
+  "[Parsed_loudnorm_0 @ 0x1] ",
+  "{",
+  '\t"input_i" : "-23.40",',
+  '\t"input_tp" : "-3.10",',
+  '\t"input_lra" : "6.20",',
+  '\t"input_thresh" : "-33.80",',
+  '\t"output_i" : "-16.00",',
+  '\t"output_tp" : "-1.50",',
+  '\t"output_lra" : "5.00",',
+  '\t"output_thresh" : "-26.40",',
+  '\t"normalization_type" : "dynamic",',
+  '\t"target_offset" : "0.10"',
+  "}",
+];
+
+const OUTPUT_FILE = /^(output|subtitle|preview|waveform|frame)[\w.]*\.\w+$/;
+
+/** Stands in for the FFmpeg worker: records every run and answers with canned logs. */
+class FakeFFmpeg {
+  calls: string[][] = [];
+  files = new Map<string, Uint8Array>();
+  loads = 0;
+  terminated = false;
+  mounts: string[] = [];
+  private logListeners: ((event: { message: string }) => void)[] = [];
+  private progressListeners: ((event: { progress: number }) => void)[] = [];
+
+  constructor(private respond: (args: string[]) => ExecResult | void) {}
+
+  load = async () => {
+    this.loads++;
+    return true;
+  };
+
+  on(event: "log" | "progress", callback: (event: { message: string } & { progress: number }) => void) {
+    if (event === "log") this.logListeners.push(callback as (event: { message: string }) => void);
+    else this.progressListeners.push(callback as (event: { progress: number }) => void);
+  }
+
+  exec = async (args: string[]) => {
+    this.calls.push(args);
+    const { exitCode = 0, logs = [] } = this.respond(args) ?? {};
+    for (const message of logs) {
+      this.logListeners.forEach(listener => listener({ message }));
+    }
+    this.progressListeners.forEach(listener => listener({ progress: 1 }));
+    if (exitCode === 0) {
+      for (const arg of args.filter(arg => OUTPUT_FILE.test(arg))) {
+        this.files.set(arg, new Uint8Array([1, 2, 3, 4]));
+      }
+    }
+    return exitCode;
+  };
+
+  terminate = () => {
+    this.terminated = true;
+  };
+
+  readFile = async (path: string) => {
+    const data = this.files.get(path);
+    if (!data) throw new Error(`No such file: ${path}`);
+    return data;
+  };
+
+  writeFile = async (path: string, data: Uint8Array | string) => {
+    this.files.set(path, typeof data === "string" ? new TextEncoder().encode(data) : data);
+    return true;
+  };
+
+  deleteFile = async (path: string) => {
+    if (!this.files.delete(path)) throw new Error(`No such file: ${path}`);
+    return true;
+  };
+
+  createDir = async () => true;
+
+  mount = async (_type: unknown, _options: unknown, mountPoint: string) => {
+    this.mounts.push(mountPoint);
+    return true;
+  };
+
+  unmount = async () => true;
+}
+
+function defaultResponder(args: string[]): ExecResult | void {
+  if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+  const filters = args[args.indexOf("-af") + 1] ?? "";
+  if (args.includes("null") && filters.includes("loudnorm")) return { logs: LOUDNORM_LOGS };
+}
+
+/** Answers probes as usual and prints one status line at `time` for every other run. */
+function respondWithStatus(time: string) {
+  return (args: string[]): ExecResult => (args.includes("-hide_banner")
+    ? { exitCode: 1, logs: PROBE_LOGS }
+    : { logs: [`size=     512kB time=${time} bitrate= 279.6kbits/s speed=3.2x`] });
+}
+
+function setup(respond: (args: string[]) => ExecResult | void = defaultResponder) {
+  const instances: FakeFFmpeg[] = [];
+  const fetched: string[] = [];
+  const engine = createConversionEngine({
+    coreSources: [{ baseURL: "https://cdn.test/core" }],
+    createFFmpeg: () => {
+      const instance = new FakeFFmpeg(respond);
+      instances.push(instance);
+      return instance as unknown as FFmpegLike;
+    },
+    fetchCore: async (url, onProgress) => {
+      fetched.push(url);
+      onProgress(100);
+      return new Blob(["core"]);
+    },
+  });
+  const current = () => instances[instances.length - 1];
+  return { engine, instances, fetched, current };
+}
+
+const file = new File([new Uint8Array(16)], "Concert.mp4", { type: "video/mp4" });
+
+/** The runs that produced output files, i.e. not probes or analysis passes. */
+function encodes(instance: FakeFFmpeg): string[][] {
+  return instance.calls.filter(args => args.some(arg => /^output/.test(arg)));
+}
+
+describe("load", () => {
+  it("downloads the core once and reuses it for later workers", async () => {
+    const { engine, fetched, instances } = setup();
+    let downloaded = 0;
+    await engine.load({ onDownloadProgress: loaded => { downloaded = loaded; } });
+
+    expect(fetched).toEqual(["https://cdn.test/core/ffmpeg-core.js", "https://cdn.test/core/ffmpeg-core.wasm"]);
+    expect(downloaded).toBe(100);
+    expect(engine.isCoreCached()).toBe(true);
+
+    engine.terminate();
+    await engine.load();
+    expect(fetched).toHaveLength(2);
+    expect(instances).toHaveLength(2);
+  });
+
+  it("falls back to the next source when one fails", async () => {
+    const fetched: string[] = [];
+    const engine = createConversionEngine({
+      coreSources: [{ baseURL: "https://down.test" }, { baseURL: "https://up.test" }],
+      createFFmpeg: () => new FakeFFmpeg(defaultResponder) as unknown as FFmpegLike,
+      fetchCore: async (url) => {
+        fetched.push(url);
+        if (url.startsWith("https://down.test")) throw new Error("HTTP error! status: 503");
+        return new Blob(["core"]);
+      },
+    });
+    await engine.load();
+    expect(fetched).toContain("https://up.test/ffmpeg-core.wasm");
+  });
+
+  it("reports a network error when every source fails", async () => {
+    const instances: FakeFFmpeg[] = [];
+    const engine = createConversionEngine({
+      coreSources: [{ baseURL: "https://down.test" }],
+      createFFmpeg: () => {
+        const instance = new FakeFFmpeg(defaultResponder);
+        instances.push(instance);
+        return instance as unknown as FFmpegLike;
+      },
+      fetchCore: async () => {
+        throw new Error("offline");
+      },
+    });
+    await expect(engine.load()).rejects.toThrow("Failed to load converter");
+    expect(engine.getLogs()).toEqual(["Failed to load FFmpeg core from https://down.test: offline"]);
+    expect(instances[0].terminated).toBe(true);
+  });
+
+  it("terminates a worker whose load was cancelled", async () => {
+    const controller = new AbortController();
+    const { engine, instances } = setup();
+    const cancelWhileStarting = () => {
+      instances[0].load = async () => {
+        controller.abort();
+        throw new DOMException("Aborted", "AbortError");
+      };
+    };
+    await expect(engine.load({ signal: controller.signal, onDownloadProgress: cancelWhileStarting })).rejects.toThrow("Aborted");
+    expect(instances[0].terminated).toBe(true);
+    expect(engine.isCoreCached()).toBe(false);
+  });
+});
+
+describe("probe", () => {
+  it("mounts the input and parses FFmpeg's description of it", async () => {
+    const { engine, current } = setup();
+    const info = await engine.probe(file);
+
+    expect(current().mounts).toEqual(["/input"]);
+    expect(current().calls[0]).toEqual(["-i", "/input/input.mp4", "-hide_banner"]);
+    expect(info.duration).toBe(60);
+    expect(info.chapters.map(chapter => chapter.title)).toEqual(["Intro", "Main"]);
+    expect(info.streams.filter(stream => stream.type === "audio")).toHaveLength(2);
+  });
+
+  it("reuses the result for the same file", async () => {
+    const { engine, current } = setup();
+    await engine.probe(file);
+    await engine.probe(file);
+    expect(current().calls).toHaveLength(1);
+  });
+
+  it("rejects files FFmpeg can't read", async () => {
+    const { engine } = setup(() => ({ exitCode: 1, logs: ["/input/input.mp4: Invalid data found when processing input"] }));
+    await expect(engine.probe(file)).rejects.toThrow("Could not read this file");
+  });
+});
+
+describe("convert", () => {
+  it("encodes the default track with the chosen format", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, { format: "mp3" });
+
+    const [args] = encodes(current());
+    expect(args.slice(0, 2)).toEqual(["-i", "/input/input.mp4"]);
+    expect(args).toEqual(expect.arrayContaining(["-map", "0:1", "-vn", "-acodec", "libmp3lame"]));
+    expect(args[args.length - 1]).toBe("output.mp3");
+    expect(result.outputs).toHaveLength(1);
+    expect(result.outputs[0]).toMatchObject({ name: "Concert.mp3", formatName: "MP3" });
+    expect(result.outputs[0].blob.type).toBe("audio/mpeg");
+    expect(current().files.has("output.mp3")).toBe(false);
+  });
+
+  it("uses the requested output name", async () => {
+    const { engine } = setup();
+    const result = await engine.convert(file, { format: "flac", outputName: "Live.flac" });
+    expect(result.outputs[0].name).toBe("Live.flac");
+  });
+
+  it("writes one output per track when extracting all of them", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, { format: "mp3", track: "all" });
+
+    const [args] = encodes(current());
+    expect(args).toEqual(expect.arrayContaining(["0:1", "output_0.mp3", "0:2", "output_1.mp3"]));
+    expect(result.outputs.map(output => output.name)).toEqual(["Concert_track1_eng.mp3", "Concert_track2_fra.mp3"]);
+  });
+
+  it("rejects a track the file doesn't have", async () => {
+    const { engine } = setup();
+    await expect(engine.convert(file, { format: "mp3", track: 7 })).rejects.toThrow("This file has no audio track #7.");
+  });
+
+  it("encodes several formats from a single decode", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, {
+      format: "wav",
+      outputName: "Master.wav",
+      additionalFormats: [{ format: "mp3", settings: { rateControl: "cbr", bitrate: 128, vbrQuality: 2, sampleRate: null, channels: null, bitDepth: null } }],
+    });
+
+    const runs = encodes(current());
+    expect(runs).toHaveLength(1);
+    expect(runs[0].filter(arg => arg === "-i")).toHaveLength(1);
+    expect(runs[0]).toEqual(expect.arrayContaining(["output.wav", "-b:a", "128k", "output_f1.mp3"]));
+    expect(result.outputs.map(output => [output.name, output.label])).toEqual([
+      ["Master.wav", "WAV"],
+      ["Master.mp3", "MP3"],
+    ]);
+  });
+
+  it("keeps formats that share an extension apart", async () => {
+    const { engine } = setup();
+    const result = await engine.convert(file, { format: "aac", additionalFormats: [{ format: "alac" }] });
+    expect(result.outputs.map(output => output.name)).toEqual(["Concert.m4a", "Concert_alac.m4a"]);
+  });
+
+  it("seeks the input and fades the selection", async () => {
+    const { engine, current } = setup();
+    await engine.convert(file, {
+      format: "mp3",
+      trim: { ...DEFAULT_TRIM, enabled: true, start: 10, end: 20, fadeIn: 1, fadeOut: 2 },
+    });
+
+    const [args] = encodes(current());
+    expect(args.slice(0, 4)).toEqual(["-ss", "10.000", "-t", "10.000"]);
+    expect(args[args.indexOf("-af") + 1]).toBe("afade=t=in:st=0:d=1,afade=t=out:st=8.000:d=2");
+  });
+
+  it("trims lossless formats with a sample-accurate filter", async () => {
+    const { engine, current } = setup();
+    await engine.convert(file, { format: "wav", trim: { ...DEFAULT_TRIM, enabled: true, start: 10, end: 20 } });
+
+    const [args] = encodes(current());
+    expect(args).not.toContain("-ss");
+    expect(args[args.indexOf("-af") + 1]).toBe("atrim=start=10:end=20,asetpts=PTS-STARTPTS");
+  });
+
+  it("runs the filter chain in order", async () => {
+    const { engine, current } = setup();
+    const filters = defaultFilterChain().map(step =>
+      step.id === "gain" || step.id === "highpass" ? { ...step, enabled: true } : step
+    );
+    filters.reverse();
+    await engine.convert(file, { format: "mp3", filters });
+
+    const [args] = encodes(current());
+    const chain = args[args.indexOf("-af") + 1];
+    expect(chain.indexOf("volume=")).toBeLessThan(chain.indexOf("highpass="));
+  });
+
+  it("writes each channel to its own file in one run", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, { format: "wav", channels: { mode: "split", channel: "FL" } });
+
+    const runs = encodes(current());
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toEqual(expect.arrayContaining(["pan=mono|c0=FL", "output_0.wav", "pan=mono|c0=FR", "output_1.wav"]));
+    expect(result.outputs.map(output => [output.name, output.label])).toEqual([
+      ["Concert_FL.wav", "Left"],
+      ["Concert_FR.wav", "Right"],
+    ]);
+  });
+
+  it("downmixes surround before the filter chain", async () => {
+    const { engine, current } = setup();
+    await engine.convert(file, {
+      format: "mp3",
+      track: 2,
+      channels: { mode: "stereo", channel: "FL" },
+      filters: defaultFilterChain().map(step => (step.id === "highpass" ? { ...step, enabled: true } : step)),
+    });
+
+    const [args] = encodes(current());
+    expect(args[args.indexOf("-af") + 1]).toMatch(/^pan=stereo\|FL<FL\+0\.707\*FC\+0\.707\*SL\|FR<.*,highpass=/);
+  });
+
+  it("cuts only the silence the audio ends with", async () => {
+    const { engine, current } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      if (args.some(arg => arg.includes("silencedetect"))) {
+        return {
+          logs: [
+            "[silencedetect @ 0x1] silence_start: 10",
+            "[silencedetect @ 0x1] silence_end: 12 | silence_duration: 2",
+            "[silencedetect @ 0x1] silence_start: 55",
+          ],
+        };
+      }
+    });
+    await engine.convert(file, {
+      format: "mp3",
+      filters: defaultFilterChain().map(step => (step.id === "silence" ? { ...step, enabled: true } : step)),
+    });
+
+    const [args] = encodes(current());
+    expect(args[args.indexOf("-af") + 1]).toBe("atrim=end=55.000,silenceremove=start_periods=1:start_duration=0.5:start_threshold=-50dB");
+  });
+
+  it("measures loudness before normalizing to it", async () => {
+    const { engine, current } = setup();
+    const phases: (string | null)[] = [];
+    const result = await engine.convert(
+      file,
+      { format: "mp3", loudness: { ...DEFAULT_LOUDNESS, enabled: true } },
+      { onPhase: phase => phases.push(phase) },
+    );
+
+    const measure = current().calls.find(args => args.includes("null"));
+    expect(measure?.[measure.indexOf("-af") + 1]).toMatch(/^loudnorm=.*print_format=json$/);
+    const [args] = encodes(current());
+    const chain = args[args.indexOf("-af") + 1];
+    expect(chain).toContain("measured_I=-23.4");
+    expect(chain).toMatch(/aresample=48000$/);
+    expect(result.outputs[0].loudness?.input.integrated).toBe(-23.4);
+    expect(phases).toContain("Measuring loudness...");
+  });
+
+  it("fails when the audio can't be measured", async () => {
+    const { engine } = setup(args => (args.includes("-hide_banner") ? { exitCode: 1, logs: PROBE_LOGS } : undefined));
+    await expect(engine.convert(file, { format: "mp3", loudness: { ...DEFAULT_LOUDNESS, enabled: true } }))
+      .rejects.toThrow("Couldn't measure the loudness");
+  });
+
+  it("converts each chapter separately", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, { format: "mp3", split: { ...DEFAULT_SPLIT, mode: "chapters" } });
+
+    const runs = encodes(current());
+    expect(runs).toHaveLength(2);
+    expect(runs[1].slice(0, 4)).toEqual(["-ss", "20.000", "-t", "40.000"]);
+    expect(result.outputs.map(output => output.name)).toEqual(["Concert - 01 - Intro.mp3", "Concert - 02 - Main.mp3"]);
+  });
+
+  it("names parts from a naming pattern", async () => {
+    const { engine } = setup();
+    const result = await engine.convert(file, {
+      format: "mp3",
+      split: { ...DEFAULT_SPLIT, mode: "chapters" },
+      naming: { pattern: "{index} {chapter} [{format} {bitrate}] {duration}" },
+    });
+    expect(result.outputs.map(output => output.name)).toEqual(["01 Intro [MP3 V2] 20s.mp3", "02 Main [MP3 V2] 40s.mp3"]);
+  });
+
+  it("numbers parts a pattern doesn't tell apart and names already taken", async () => {
+    const { engine } = setup();
+    const split = await engine.convert(file, { format: "mp3", split: { ...DEFAULT_SPLIT, mode: "chapters" }, naming: { pattern: "{name}_{format}" } });
+    expect(split.outputs.map(output => output.name)).toEqual(["Concert_MP3 - 01 - Intro.mp3", "Concert_MP3 - 02 - Main.mp3"]);
+
+    const batch = await engine.convert(file, { format: "mp3", naming: { pattern: "{name}", index: 2, count: 2, taken: ["concert.mp3"] } });
+    expect(batch.outputs[0].name).toBe("Concert (2).mp3");
+  });
+
+  it("numbers parts whose {chapter} is empty", async () => {
+    const { engine } = setup();
+    const result = await engine.convert(file, {
+      format: "mp3",
+      split: { ...DEFAULT_SPLIT, mode: "length", segmentLength: 20 },
+      naming: { pattern: "{name} {chapter}" },
+    });
+    expect(result.outputs.map(output => output.name)).toEqual(["Concert - 01.mp3", "Concert - 02.mp3", "Concert - 03.mp3"]);
+  });
+
+  it("numbers chapters that share a title", async () => {
+    const { engine } = setup(args => (args.includes("-hide_banner")
+      ? { exitCode: 1, logs: PROBE_LOGS.map(line => line.replace("Intro", "Main")) }
+      : undefined));
+    const result = await engine.convert(file, {
+      format: "mp3",
+      split: { ...DEFAULT_SPLIT, mode: "chapters" },
+      naming: { pattern: "{chapter}" },
+    });
+    expect(result.outputs.map(output => output.name)).toEqual(["Main.mp3", "Main (2).mp3"]);
+  });
+
+  it("cuts in the middle of detected silences", async () => {
+    const { engine, current } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      if (args.some(arg => arg.startsWith("silencedetect"))) {
+        return { logs: ["[silencedetect @ 0x1] silence_start: 29", "[silencedetect @ 0x1] silence_end: 31 | silence_duration: 2"] };
+      }
+    });
+    await engine.convert(file, { format: "mp3", split: { ...DEFAULT_SPLIT, mode: "silence" } });
+
+    const runs = encodes(current());
+    expect(runs.map(args => args.slice(0, 4))).toEqual([
+      ["-ss", "0.000", "-t", "30.000"],
+      ["-ss", "30.000", "-t", "30.000"],
+    ]);
+  });
+
+  it("copies the original audio when asked", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, { format: "mp3", keepOriginal: true });
+
+    const [args] = encodes(current());
+    expect(args).toEqual(expect.arrayContaining(["-acodec", "copy", "output.m4a"]));
+    expect(result.outputs[0].name).toBe("Concert.m4a");
+    expect(result.notes).toEqual([]);
+  });
+
+  it("re-encodes when copying fails", async () => {
+    const { engine, current } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      if (args.includes("copy")) return { exitCode: 1, logs: ["Could not write header for output file"] };
+    });
+    const result = await engine.convert(file, { format: "mp3", keepOriginal: true });
+
+    expect(encodes(current())).toHaveLength(2);
+    expect(result.outputs[0].name).toBe("Concert.mp3");
+    expect(result.notes[0]).toMatch(/re-encoded to MP3/);
+  });
+
+  it("surfaces FFmpeg's error when encoding fails", async () => {
+    const { engine } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      return { exitCode: 1, logs: ["Error while opening encoder for output stream #0:0"] };
+    });
+    await expect(engine.convert(file, { format: "mp3" })).rejects.toThrow("Error while opening encoder");
+  });
+
+  it("rejects unknown formats", async () => {
+    const { engine } = setup();
+    await expect(engine.convert(file, { format: "tape" })).rejects.toThrow('Unknown output format "tape"');
+  });
+
+  it("rejects files without audio", async () => {
+    const { engine } = setup(args => (args.includes("-hide_banner")
+      ? { exitCode: 1, logs: PROBE_LOGS.filter(line => !line.includes("Audio:")) }
+      : undefined));
+    await expect(engine.convert(file, { format: "mp3" })).rejects.toThrow("no audio track");
+  });
+
+  it("reports progress from the media time FFmpeg has reached", async () => {
+    const { engine } = setup(respondWithStatus("00:00:15.00"));
+    const progress: string[] = [];
+    await engine.convert(
+      file,
+      { format: "mp3", split: { ...DEFAULT_SPLIT, mode: "chapters" } },
+      { onProgress: update => progress.push(update.progress.toFixed(3)) },
+    );
+    // Both chapters share one bar: 0–20 s, then 20–60 s.
+    expect(progress).toEqual(["0.000", "0.250", "0.333", "0.583"]);
+  });
+
+  it("accounts for tempo changes in the output's timeline", async () => {
+    const { engine } = setup(respondWithStatus("00:00:15.00"));
+    const filters = defaultFilterChain().map(step =>
+      step.id === "tempo" ? { ...step, enabled: true, values: { factor: 2 } } : step
+    );
+    const progress: number[] = [];
+    await engine.convert(file, { format: "mp3", filters }, { onProgress: update => progress.push(update.progress) });
+    expect(progress).toEqual([0, 0.5]);
+  });
+
+  it("falls back to FFmpeg's estimate when the duration is unknown", async () => {
+    const { engine } = setup(args => (args.includes("-hide_banner")
+      ? { exitCode: 1, logs: PROBE_LOGS.map(line => line.replace("00:01:00.00", "N/A")) }
+      : undefined));
+    const progress: number[] = [];
+    await engine.convert(file, { format: "mp3" }, { onProgress: update => progress.push(update.progress) });
+    expect(progress).toEqual([0, 1]);
+  });
+
+  it("terminates the worker when aborted and starts a new one next time", async () => {
+    const controller = new AbortController();
+    const { engine, instances } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      controller.abort();
+    });
+    await engine.convert(file, { format: "mp3" }, { signal: controller.signal }).catch(() => {});
+    expect(instances[0].terminated).toBe(true);
+
+    await expect(engine.convert(file, { format: "mp3" }, { signal: controller.signal })).rejects.toThrow();
+    await engine.probe(file);
+    expect(instances).toHaveLength(2);
+  });
+
+  it("runs calls one at a time, each with its own progress", async () => {
+    const { engine } = setup(respondWithStatus("00:00:15.00"));
+    const convertProgress: number[] = [];
+    const previewProgress: number[] = [];
+    await Promise.all([
+      engine.convert(file, { format: "mp3" }, { onProgress: update => convertProgress.push(update.progress) }),
+      engine.preview(file, { from: 0, length: 30 }, { onProgress: update => previewProgress.push(update.progress) }),
+    ]);
+    expect(convertProgress).toEqual([0, 0.25]);
+    expect(previewProgress).toEqual([0, 0.5]);
+  });
+
+  it("skips a call cancelled while it waits for its turn", async () => {
+    const controller = new AbortController();
+    const { engine, current } = setup();
+    const probe = engine.probe(file);
+    const convert = engine.convert(file, { format: "mp3" }, { signal: controller.signal });
+    controller.abort();
+
+    await probe;
+    await expect(convert).rejects.toThrow();
+    expect(encodes(current())).toHaveLength(0);
+    expect(current().terminated).toBe(false);
+  });
+});
+
+describe("subtitles", () => {
+  it("converts text subtitle tracks", async () => {
+    const { engine, current } = setup();
+    const [output] = await engine.extractSubtitles(file, { streams: [3], format: "vtt" });
+
+    const args = current().calls[current().calls.length - 1];
+    expect(args).toEqual(["-i", "/input/input.mp4", "-map", "0:3", "-c:s", "webvtt", "subtitle_0.vtt"]);
+    expect(output).toMatchObject({ kind: "subtitle", name: "Concert.eng.vtt", formatName: "WebVTT" });
+    expect(output.blob.type).toBe("text/vtt");
+  });
+
+  it("refuses image-based subtitles", async () => {
+    const { engine } = setup();
+    await expect(engine.extractSubtitles(file, { streams: [4], format: "srt" })).rejects.toThrow("image-based");
+  });
+
+  it("exports subtitles cut to the converted selection", async () => {
+    const { engine, current } = setup();
+    const result = await engine.convert(file, {
+      format: "mp3",
+      trim: { ...DEFAULT_TRIM, enabled: true, start: 10, end: 20 },
+      subtitles: { streams: [3], format: "srt" },
+    });
+
+    const args = current().calls[current().calls.length - 1];
+    expect(args.slice(0, 4)).toEqual(["-ss", "10.000", "-t", "10.000"]);
+    expect(result.outputs.map(output => [output.kind, output.name])).toEqual([
+      ["audio", "Concert.mp3"],
+      ["subtitle", "Concert.eng.srt"],
+    ]);
+  });
+
+  it("keeps the audio when the subtitles fail", async () => {
+    const { engine } = setup(args => {
+      if (args.includes("-hide_banner")) return { exitCode: 1, logs: PROBE_LOGS };
+      if (args.includes("-c:s")) return { exitCode: 1, logs: ["Error initializing output stream 0:0"] };
+    });
+    const result = await engine.convert(file, { format: "mp3", subtitles: { streams: [3], format: "srt" } });
+
+    expect(result.outputs.map(output => output.kind)).toEqual(["audio"]);
+    expect(result.notes[0]).toMatch(/subtitles weren't exported/);
+  });
+});
+
+describe("formats", () => {
+  it("converts to formats registered at runtime", async () => {
+    const { engine, current } = setup();
+    engine.formats.register({
+      id: "amr",
+      name: "AMR",
+      extension: "amr",
+      mimeType: "audio/amr",
+      codec: "libopencore_amrnb",
+      extraArgs: ["-ar", "8000", "-ac", "1"],
+    });
+    const result = await engine.convert(file, { format: "amr" });
+
+    const [args] = encodes(current());
+    expect(args).toEqual(expect.arrayContaining(["-acodec", "libopencore_amrnb", "-ar", "8000"]));
+    expect(result.outputs[0].name).toBe("Concert.amr");
+    expect(engine.formats.list().map(format => format.id)).toContain("amr");
+  });
+});
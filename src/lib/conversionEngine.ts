@@ -0,0 +1,1014 @@
+import { FFmpeg } from "@ffmpeg/ffmpeg";
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+import { channelNames, planChannels, type ChannelOutput, type ChannelSettings } from "@/lib/channels";
+import { getCoreSources, verifyIntegrity, type CoreSource } from "@/lib/ffmpegCore";
+import { buildOutputArgs } from "@/lib/ffmpegArgs";
+import { compileFilterChain, playbackRate, trailingSilenceDetection, type FilterStep } from "@/lib/filters";
+import { createFormatRegistry, type FormatRegistry } from "@/lib/formatRegistry";
+import { mountInput, unmountInput } from "@/lib/inputFile";
+import {
+  loudnessApplyFilter,
+  loudnessMeasureFilter,
+  parseLoudnormStats,
+  type LoudnessSettings,
+  type LoudnormStats,
+} from "@/lib/loudness";
+import {
+  audioTrackLabel,
+  getAudioStreams,
+  getSubtitleStreams,
+  parseMediaInfo,
+  type AudioStream,
+  type MediaInfo,
+} from "@/lib/mediaInfo";
+import {
+  chapterSegments,
+  clipSegments,
+  fixedLengthSegments,
+  parseSilenceDetect,
+  segmentFileName,
+  silenceDetectFilter,
+  silenceSegments,
+  type Segment,
+  type SilenceInterval,
+  type SplitSettings,
+} from "@/lib/split";
+import {
+  bitrateToken,
+  namesParts,
+  renderFileName,
+  uniqueFileName,
+  type NamingOptions,
+  type NamingValues,
+} from "@/lib/naming";
+import { createProgressTracker, parseProgressTime, type ProgressTracker, type ProgressUpdate } from "@/lib/progress";
+import { getCopyTarget } from "@/lib/streamCopy";
+import {
+  isTextSubtitle,
+  SUBTITLE_FORMATS,
+  subtitleFileName,
+  subtitleTrackLabel,
+  type SubtitleExport,
+} from "@/lib/subtitles";
+import { EMPTY_TAGS, type AudioTags, type CoverArt } from "@/lib/tags";
+import {
+  computePeaks,
+  DEFAULT_TRIM,
+  formatTimestamp,
+  trimFilters,
+  trimInputArgs,
+  waveformSampleRate,
+  type TrimSettings,
+} from "@/lib/trim";
+
+/** The parts of FFmpeg's API the engine relies on; tests substitute a fake. */
+export type FFmpegLike = Pick<
+  FFmpeg,
+  "load" | "exec" | "on" | "terminate" | "readFile" | "writeFile" | "deleteFile" | "createDir" | "mount" | "unmount"
+>;
+
+export type FetchCore = (url: string, onProgress: (loaded: number) => void, signal?: AbortSignal) => Promise<Blob>;
+
+export interface EngineConfig {
+  formats?: FormatRegistry;
+  /** Where to load the core from, in order. Defaults to getCoreSources(). */
+  coreSources?: CoreSource[];
+  createFFmpeg?: () => FFmpegLike;
+  fetchCore?: FetchCore;
+  loadTimeoutMs?: number;
+}
+
+export interface TaskOptions {
+  signal?: AbortSignal;
+  /** Progress through the current phase, measured from the media time FFmpeg has reached. */
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+export interface ConvertTaskOptions extends TaskOptions {
+  /** Describes the current pass, e.g. "Measuring loudness...", or null for the main encode. */
+  onPhase?: (phase: string | null) => void;
+}
+
+export interface LoadOptions {
+  signal?: AbortSignal;
+  /** Bytes of the WebAssembly binary downloaded so far. */
+  onDownloadProgress?: (loaded: number) => void;
+}
+
+export interface FormatChoice {
+  /** Id of a format in the engine's registry. */
+  format: string;
+  settings?: EncodingSettings;
+}
+
+export interface ConversionOptions extends FormatChoice {
+  /** More formats to encode in the same run, so the input is only decoded once. */
+  additionalFormats?: FormatChoice[];
+  /** Audio stream index to extract, or "all" for one output per track. Defaults to the default track. */
+  track?: number | "all";
+  /** Copy the source audio into a matching container instead of encoding, where possible. */
+  keepOriginal?: boolean;
+  trim?: TrimSettings;
+  /** Downmixing, splitting or picking channels, applied before the filter chain. */
+  channels?: ChannelSettings;
+  filters?: FilterStep[];
+  loudness?: LoudnessSettings;
+  split?: SplitSettings;
+  tags?: AudioTags;
+  cover?: Pick<CoverArt, "data" | "mimeType">;
+  /** Name of a single, unsplit output. Defaults to the input's base name with the format's extension. */
+  outputName?: string;
+  /** Names every output from a pattern instead; takes precedence over `outputName`. */
+  naming?: NamingOptions;
+  /** Text subtitle tracks to export next to the audio, cut to the same selection. */
+  subtitles?: SubtitleExport;
+}
+
+export interface EngineOutput {
+  kind: "audio" | "subtitle";
+  name: string;
+  formatName: string;
+  /** MIME type to offer an audio element, which can differ from the file's own type. */
+  previewType: string;
+  label?: string;
+  /** Length in seconds, when the source's duration is known. */
+  duration?: number;
+  /** First-pass measurement of the source when loudness normalization ran. */
+  loudness?: LoudnormStats;
+  blob: Blob;
+}
+
+export interface ConversionResult {
+  outputs: EngineOutput[];
+  /** Explanations of anything that didn't go as requested, e.g. a copy that had to be re-encoded. */
+  notes: string[];
+}
+
+export interface WaveformOptions {
+  streamIndex?: number;
+  duration: number;
+  buckets: number;
+}
+
+export interface PreviewOptions {
+  from: number;
+  length: number;
+  streamIndex?: number;
+  filters?: FilterStep[];
+}
+
+/**
+ * Calls run one at a time, in the order they were made, since they share one
+ * worker along with its log and progress reporting.
+ */
+export interface ConversionEngine {
+  readonly formats: FormatRegistry;
+  /** True once the core has been downloaded; later loads only start a new worker. */
+  isCoreCached(): boolean;
+  load(options?: LoadOptions): Promise<void>;
+  probe(file: File, task?: TaskOptions): Promise<MediaInfo>;
+  convert(file: File, options: ConversionOptions, task?: ConvertTaskOptions): Promise<ConversionResult>;
+  /** Peak levels of one audio stream, between 0 and 1, for drawing a waveform. */
+  waveform(file: File, options: WaveformOptions, task?: TaskOptions): Promise<number[]>;
+  /** Renders a short MP3 clip, optionally through a filter chain. */
+  preview(file: File, options: PreviewOptions, task?: TaskOptions): Promise<Blob>;
+  /** Converts text subtitle tracks to SRT or WebVTT, one file per track. */
+  extractSubtitles(file: File, options: SubtitleExport, task?: TaskOptions): Promise<EngineOutput[]>;
+  /** Extracts one video frame as JPEG. */
+  grabFrame(file: File, seconds: number, task?: TaskOptions): Promise<Uint8Array>;
+  /** Unmounts the current input. */
+  release(): Promise<void>;
+  /** Kills the worker; the next call starts a new one from the cached core. */
+  terminate(): void;
+  /** FFmpeg's log output from the most recent call. */
+  getLogs(): string[];
+}
+
+interface CoreURLs {
+  coreURL: string;
+  wasmURL: string;
+}
+
+/** What one output is made from: a track, and which of its channels. */
+interface AudioSource {
+  stream?: AudioStream;
+  /** Position of the track among the file's audio tracks. */
+  position: number;
+  channel: ChannelOutput;
+  /** Identifies the source's loudness measurement. */
+  key: string;
+}
+
+interface ConversionTarget {
+  source: AudioSource;
+  stream?: AudioStream;
+  format: AudioFormat;
+  settings?: EncodingSettings;
+  outputFileName: string;
+  name: string;
+  label?: string;
+}
+
+/** One FFmpeg run over a time range; splitting produces one job per part. */
+interface ConversionJob {
+  range: TrimSettings;
+  tags: AudioTags;
+  part?: { index: number; count: number; segment: Segment };
+}
+
+const DEFAULT_LOAD_TIMEOUT_MS = 300000;
+// A silence ending this close to the end of a part still counts as its tail.
+const TRAILING_SILENCE_TOLERANCE = 0.1;
+
+async function fetchWithProgress(url: string, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("ReadableStream not supported");
+  }
+
+  const chunks: ArrayBuffer[] = [];
+  let loaded = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value.buffer as ArrayBuffer);
+    loaded += value.length;
+    onProgress(loaded);
+  }
+
+  return new Blob(chunks);
+}
+
+function blobToURL(blob: Blob, mimeType: string): string {
+  return URL.createObjectURL(new Blob([blob], { type: mimeType }));
+}
+
+function baseNameOf(file: File): string {
+  return file.name.replace(/\.[^/.]+$/, "");
+}
+
+function mapArgs(streamIndex: number | undefined): string[] {
+  return streamIndex !== undefined ? ["-map", `0:${streamIndex}`] : [];
+}
+
+/** The most telling error line FFmpeg logged, if any. */
+function failureReason(logs: string[]): string | undefined {
+  return logs.filter(log => /error|invalid|does not contain/i.test(log)).pop();
+}
+
+export function createConversionEngine(config: EngineConfig = {}): ConversionEngine {
+  const formats = config.formats ?? createFormatRegistry();
+  const createFFmpeg = config.createFFmpeg ?? (() => new FFmpeg());
+  const fetchCore = config.fetchCore ?? fetchWithProgress;
+  const loadTimeoutMs = config.loadTimeoutMs ?? DEFAULT_LOAD_TIMEOUT_MS;
+
+  let ffmpeg: FFmpegLike | null = null;
+  let coreURLs: CoreURLs | null = null;
+  let mounted: { file: File; path: string } | null = null;
+  let lastProbe: { file: File; info: MediaInfo } | null = null;
+  let logs: string[] = [];
+  let progressListener: ((update: ProgressUpdate) => void) | null = null;
+  // Progress is the media time FFmpeg reports against the length of what the
+  // current phase covers. `runOffset` is where the current run starts within
+  // it, or null for runs that report no progress at all.
+  let progressTracker: ProgressTracker | null = null;
+  let runOffset: number | null = null;
+  // Settles once every call made so far has finished.
+  let queue: Promise<void> = Promise.resolve();
+
+  const terminate = () => {
+    // exec() cannot be interrupted, so the worker is killed outright. Its
+    // filesystem, including any partial output and the mount, goes with it.
+    ffmpeg?.terminate();
+    ffmpeg = null;
+    mounted = null;
+  };
+
+  const loadFromSource = async (instance: FFmpegLike, source: CoreSource, options: LoadOptions): Promise<CoreURLs> => {
+    const { signal, onDownloadProgress } = options;
+    const jsBlob = await fetchCore(`${source.baseURL}/ffmpeg-core.js`, () => {}, signal);
+    if (source.integrity) {
+      await verifyIntegrity(jsBlob, source.integrity.js, "ffmpeg-core.js");
+    }
+    const wasmBlob = await fetchCore(`${source.baseURL}/ffmpeg-core.wasm`, onDownloadProgress ?? (() => {}), signal);
+    if (source.integrity) {
+      await verifyIntegrity(wasmBlob, source.integrity.wasm, "ffmpeg-core.wasm");
+    }
+    const urls = {
+      coreURL: blobToURL(jsBlob, "text/javascript"),
+      wasmURL: blobToURL(wasmBlob, "application/wasm"),
+    };
+    await instance.load(urls, { signal });
+    return urls;
+  };
+
+  const ensureLoaded = async (options: LoadOptions = {}): Promise<FFmpegLike> => {
+    if (ffmpeg) {
+      return ffmpeg;
+    }
+
+    const instance = createFFmpeg();
+    instance.on("progress", ({ progress }) => {
+      // FFmpeg's own estimate is only a fallback for media of unknown length.
+      if (!progressTracker && runOffset !== null) {
+        progressListener?.({ progress: Math.min(1, Math.max(0, progress)), speed: null, remaining: null });
+      }
+    });
+    instance.on("log", ({ message }) => {
+      logs.push(message);
+      const time = parseProgressTime(message);
+      if (time !== null && progressTracker && runOffset !== null) {
+        progressListener?.(progressTracker(runOffset + time));
+      }
+    });
+
+    try {
+      await loadCore(instance, options);
+    } catch (err) {
+      // A worker that never finished loading is no use to the next attempt.
+      instance.terminate();
+      throw err;
+    }
+    ffmpeg = instance;
+    return instance;
+  };
+
+  const loadCore = async (instance: FFmpegLike, options: LoadOptions): Promise<void> => {
+    // After a cancel the core is already downloaded; only the worker is new.
+    if (coreURLs) {
+      await instance.load(coreURLs, { signal: options.signal });
+      return;
+    }
+
+    let lastError: Error | null = null;
+    for (const source of config.coreSources ?? getCoreSources()) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Loading timeout")), loadTimeoutMs);
+        });
+        coreURLs = await Promise.race([loadFromSource(instance, source, options), timeout]);
+        lastError = null;
+        break;
+      } catch (e) {
+        lastError = e instanceof Error ? e : new Error(String(e));
+        if (options.signal?.aborted) {
+          throw lastError;
+        }
+        // Kept with FFmpeg's own output so a failed load can be diagnosed from the log.
+        logs.push(`Failed to load FFmpeg core from ${source.baseURL}: ${lastError.message}`);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    if (lastError || !coreURLs) {
+      throw new Error("Failed to load converter. Please check your network connection and try again.");
+    }
+  };
+
+  /** Runs `call` once the calls made before it have finished, whether or not they succeeded. */
+  const schedule = <T>(call: () => Promise<T>): Promise<T> => {
+    const result = queue.then(call);
+    queue = result.then(() => {}, () => {});
+    return result;
+  };
+
+  /** Loads the worker for one call, terminating it if the call is aborted. */
+  const runTask = <T>(task: TaskOptions, run: (instance: FFmpegLike) => Promise<T>): Promise<T> => schedule(async () => {
+    const { signal } = task;
+    // Checked once it's this call's turn, so a call cancelled while waiting never starts.
+    signal?.throwIfAborted();
+    signal?.addEventListener("abort", terminate, { once: true });
+    progressListener = task.onProgress ?? null;
+    progressTracker = null;
+    logs = [];
+    try {
+      return await run(await ensureLoaded({ signal }));
+    } finally {
+      signal?.removeEventListener("abort", terminate);
+      progressListener = null;
+      progressTracker = null;
+    }
+  });
+
+  /** Starts a phase covering `length` seconds of media, or of unknown length when null. */
+  const trackProgress = (length: number | null) => {
+    progressTracker = length ? createProgressTracker(length) : null;
+  };
+
+  const ensureInput = async (instance: FFmpegLike, file: File): Promise<string> => {
+    if (mounted?.file !== file) {
+      mounted = { file, path: await mountInput(instance, file) };
+    }
+    return mounted.path;
+  };
+
+  /**
+   * Runs FFmpeg and returns its exit code with the log lines of just this run.
+   * `offset` is how far into the current phase, in seconds of media, the run
+   * starts; null keeps the run out of the progress reports.
+   */
+  const execWithLogs = async (instance: FFmpegLike, args: string[], signal?: AbortSignal, offset: number | null = 0) => {
+    const from = logs.length;
+    runOffset = offset;
+    if (offset !== null) {
+      progressListener?.(progressTracker?.(offset) ?? { progress: 0, speed: null, remaining: null });
+    }
+    const exitCode = await instance.exec(args, undefined, { signal });
+    return { exitCode, logs: logs.slice(from) };
+  };
+
+  const probeWith = async (instance: FFmpegLike, file: File, signal?: AbortSignal): Promise<MediaInfo> => {
+    if (lastProbe?.file === file) {
+      return lastProbe.info;
+    }
+    const inputPath = await ensureInput(instance, file);
+    // FFmpeg exits with an error when given no output, but it has logged everything we need.
+    const { logs: probeLogs } = await execWithLogs(instance, ["-i", inputPath, "-hide_banner"], signal, null);
+    signal?.throwIfAborted();
+
+    const info = parseMediaInfo(probeLogs);
+    if (!info.container) {
+      throw new Error("Could not read this file. It may be corrupt or in an unsupported format.");
+    }
+    lastProbe = { file, info };
+    return info;
+  };
+
+  /** Writes the requested subtitle tracks in one run; `range` cuts them to match trimmed audio. */
+  const subtitlesWith = async (
+    instance: FFmpegLike,
+    file: File,
+    request: SubtitleExport,
+    range: TrimSettings,
+    baseName: string,
+    signal?: AbortSignal,
+  ): Promise<EngineOutput[]> => {
+    const info = await probeWith(instance, file, signal);
+    const inputPath = await ensureInput(instance, file);
+    const subtitleStreams = getSubtitleStreams(info);
+    const format = SUBTITLE_FORMATS[request.format];
+
+    const targets = request.streams.map(index => {
+      const position = subtitleStreams.findIndex(stream => stream.index === index);
+      const stream = subtitleStreams[position];
+      if (!stream) {
+        throw new Error(`This file has no subtitle track #${index}.`);
+      }
+      if (!isTextSubtitle(stream)) {
+        throw new Error(`${subtitleTrackLabel(stream, position)} is image-based and can't be converted to text.`);
+      }
+      return { stream, position, outputFileName: `subtitle_${position}.${format.extension}` };
+    });
+    if (targets.length === 0) return [];
+
+    trackProgress(range.enabled ? range.end - range.start : info.duration);
+    const args = [...trimInputArgs(range, false), "-i", inputPath];
+    for (const target of targets) {
+      args.push("-map", `0:${target.stream.index}`, "-c:s", format.codec, target.outputFileName);
+    }
+    const run = await execWithLogs(instance, args, signal);
+    if (run.exitCode !== 0) {
+      if (!signal?.aborted) {
+        for (const target of targets) {
+          await instance.deleteFile(target.outputFileName).catch(() => {});
+        }
+      }
+      throw new Error(failureReason(run.logs) ?? `Couldn't convert the subtitles to ${format.name}.`);
+    }
+
+    const outputs: EngineOutput[] = [];
+    for (const target of targets) {
+      const data = await instance.readFile(target.outputFileName);
+      outputs.push({
+        kind: "subtitle",
+        name: subtitleFileName(baseName, target.stream, target.position, targets.length, request.format),
+        formatName: format.name,
+        previewType: format.mimeType,
+        label: subtitleTrackLabel(target.stream, target.position),
+        blob: new Blob([data as BlobPart], { type: format.mimeType }),
+      });
+      await instance.deleteFile(target.outputFileName);
+    }
+    return outputs;
+  };
+
+  const convertWith = async (
+    instance: FFmpegLike,
+    file: File,
+    options: ConversionOptions,
+    task: ConvertTaskOptions,
+  ): Promise<ConversionResult> => {
+    const { signal, onPhase } = task;
+    const outputFormats = [options, ...(options.additionalFormats ?? [])]
+      .filter((choice, index, choices) => choices.findIndex(other => other.format === choice.format) === index)
+      .map(choice => {
+        const outputFormat = formats.get(choice.format);
+        if (!outputFormat) {
+          throw new Error(`Unknown output format "${choice.format}"`);
+        }
+        return { format: outputFormat, settings: choice.settings };
+      });
+    const format = outputFormats[0].format;
+
+    const info = await probeWith(instance, file, signal);
+    const inputPath = await ensureInput(instance, file);
+    const audioStreams = getAudioStreams(info);
+    if (audioStreams.length === 0) {
+      throw new Error("This file has no audio track to extract.");
+    }
+
+    const track = options.track ?? (audioStreams.find(stream => stream.isDefault) ?? audioStreams[0]).index;
+    const selectedStreams = track === "all" ? audioStreams : audioStreams.filter(stream => stream.index === track);
+    if (selectedStreams.length === 0) {
+      throw new Error(`This file has no audio track #${track}.`);
+    }
+    const trim = options.trim ?? DEFAULT_TRIM;
+    const tags = options.tags ?? EMPTY_TAGS;
+    const loudness = options.loudness?.enabled ? options.loudness : null;
+    const cover = options.cover ?? null;
+    const baseName = baseNameOf(file);
+    const outputBaseName = options.outputName ? options.outputName.replace(/\.[^/.]+$/, "") : baseName;
+    const coverFileName = cover?.mimeType === "image/png" ? "cover.png" : "cover.jpg";
+    const userFilters = compileFilterChain(options.filters ?? []);
+    const silenceDetection = trailingSilenceDetection(options.filters ?? []);
+    const outputRate = playbackRate(options.filters ?? []);
+    const channels = options.channels;
+    const needsEncoding = loudness !== null || userFilters.length > 0 || (channels !== undefined && channels.mode !== "keep");
+    const notes: string[] = [];
+
+    const sources: AudioSource[] = selectedStreams.flatMap((stream, position) => {
+      const names = channelNames(stream?.channelLayout, stream?.channels);
+      const outputs = channels ? planChannels(channels, names) : [{ filter: null, suffix: "" }];
+      return outputs.map(channel => ({ stream, position, channel, key: `${stream?.index}${channel.suffix}` }));
+    });
+
+    const naming = options.naming;
+    const namingDate = naming?.date ?? new Date();
+    const namingValues = (targetFormat: AudioFormat, settings: EncodingSettings | undefined, job?: ConversionJob): NamingValues => {
+      const range = job?.part?.segment ?? { start: rangeStart, end: rangeEnd };
+      return {
+        name: baseName,
+        format: targetFormat.name,
+        bitrate: targetFormat.codec === "copy" ? "" : bitrateToken(targetFormat, settings ?? targetFormat.defaults),
+        date: namingDate,
+        index: job?.part ? job.part.index + 1 : naming?.index ?? 1,
+        count: job?.part ? job.part.count : naming?.count ?? 1,
+        chapter: job?.part?.segment.title,
+        title: (job?.tags ?? tags).title || undefined,
+        duration: (range.end - range.start) / outputRate,
+      };
+    };
+
+    /** `taken` collects the names given out so far, so parts and earlier batch files aren't overwritten. */
+    const planTargets = (allowCopy: boolean, job: ConversionJob, taken: string[]): ConversionTarget[] => {
+      const targets = outputFormats.flatMap((choice, formatPosition) => sources.map((source, sourcePosition): ConversionTarget => {
+        const { stream, position, channel } = source;
+        let targetFormat = choice.format;
+        // Only the first format stands in for the original audio; the others are always encoded.
+        const mayCopy = formatPosition === 0 && options.keepOriginal && allowCopy;
+        if (mayCopy && needsEncoding) {
+          notes.push(`Filters, channel changes and loudness normalization need re-encoding, so the audio was converted to ${format.name}.`);
+        } else if (mayCopy) {
+          const copyTarget = getCopyTarget(stream?.codec);
+          if (copyTarget) {
+            targetFormat = {
+              id: "copy",
+              name: copyTarget.container,
+              extension: copyTarget.extension,
+              codec: "copy",
+              mimeType: copyTarget.mimeType,
+              tags: formats.list().find(f => f.extension === copyTarget.extension)?.tags,
+            };
+          } else {
+            notes.push(
+              `${stream?.codec ? stream.codec.toUpperCase() : "This"} audio can't be stored without re-encoding, so it was converted to ${format.name}.`
+            );
+          }
+        }
+
+        const allTracks = track === "all" && stream !== undefined;
+        const trackSuffix = allTracks ? `_track${position + 1}${stream.language ? `_${stream.language}` : ""}` : "";
+        const trackLabel = allTracks ? audioTrackLabel(stream, position) : undefined;
+        const formatLabel = outputFormats.length > 1 ? targetFormat.name : undefined;
+        const outputStem = formatPosition === 0 ? "output" : `output_f${formatPosition}`;
+        const channelSuffix = channel.suffix;
+        const patternName = naming && renderFileName(naming.pattern, namingValues(targetFormat, choice.settings, job));
+
+        if (job.part) {
+          const { index, count, segment } = job.part;
+          const partLabel = [
+            `Part ${index + 1}`,
+            segment.title,
+            `${formatTimestamp(segment.start)}–${formatTimestamp(segment.end)}`,
+          ].filter(Boolean).join(" • ");
+          return {
+            source,
+            stream,
+            format: targetFormat,
+            settings: choice.settings,
+            outputFileName: `${outputStem}_${sourcePosition}.${targetFormat.extension}`,
+            name: patternName && namesParts(naming.pattern, segment.title)
+              ? `${patternName}${trackSuffix}${channelSuffix}.${targetFormat.extension}`
+              : segmentFileName((patternName ?? baseName) + trackSuffix + channelSuffix, index, count, targetFormat.extension, segment.title),
+            label: [formatLabel, trackLabel, channel.label, partLabel].filter(Boolean).join(" • "),
+          };
+        }
+
+        // One FFmpeg output per extracted track or channel; all of them come out of a single run.
+        if (allTracks || sources.length > 1) {
+          return {
+            source,
+            stream,
+            format: targetFormat,
+            settings: choice.settings,
+            outputFileName: `${outputStem}_${sourcePosition}.${targetFormat.extension}`,
+            name: `${patternName ?? (allTracks ? baseName : outputBaseName)}${trackSuffix}${channelSuffix}.${targetFormat.extension}`,
+            label: [formatLabel, trackLabel, channel.label].filter(Boolean).join(" • ") || undefined,
+          };
+        }
+        return {
+          source,
+          stream,
+          format: targetFormat,
+          settings: choice.settings,
+          outputFileName: `${outputStem}.${targetFormat.extension}`,
+          name: patternName
+            ? `${patternName}${channelSuffix}.${targetFormat.extension}`
+            : targetFormat.codec === "copy"
+            ? `${baseName}.${targetFormat.extension}`
+            : formatPosition === 0 && options.outputName && !channelSuffix
+            ? options.outputName
+            : `${outputBaseName}${channelSuffix}.${targetFormat.extension}`,
+          label: [formatLabel, channel.label].filter(Boolean).join(" • ") || undefined,
+        };
+      }));
+
+      // Formats can share an extension, e.g. AAC and ALAC are both .m4a, so
+      // those get the format added. Anything still clashing, with another output,
+      // an earlier part or a name given out earlier in a batch, is numbered in order.
+      const planned = new Set<string>();
+      return targets.map(target => {
+        const withFormat = planned.has(target.name.toLowerCase())
+          ? target.name.replace(/(\.[^/.]+)?$/, ext => `_${target.format.id}${ext}`)
+          : target.name;
+        const name = uniqueFileName(withFormat, taken);
+        planned.add(target.name.toLowerCase());
+        taken.push(name);
+        return { ...target, name };
+      });
+    };
+
+    const channelFilters = (source: AudioSource) => (source.channel.filter ? [source.channel.filter] : []);
+
+    const rangeStart = trim.enabled ? trim.start : 0;
+    const rangeEnd = trim.enabled ? trim.end : info.duration ?? 0;
+
+    // Silences per source over the whole selection, on the source's timeline,
+    // keyed by source; each part is then cut where its own tail goes quiet.
+    const silences = new Map<string, SilenceInterval[]>();
+    const detectTrailingSilence = async (detection: NonNullable<typeof silenceDetection>) => {
+      onPhase?.("Finding trailing silence...");
+      const passLength = (rangeEnd - rangeStart) / detection.rate;
+      trackProgress(passLength * sources.length);
+      for (let position = 0; position < sources.length; position++) {
+        const source = sources[position];
+        // No fades here, or a fade-out would be taken for silence.
+        const filters = [...channelFilters(source), ...detection.filters];
+        const run = await execWithLogs(instance, [
+          ...trimInputArgs(trim, false),
+          "-i", inputPath,
+          ...mapArgs(source.stream?.index),
+          "-vn", "-af", filters.join(","),
+          "-f", "null", "-",
+        ], signal, position * passLength);
+        if (run.exitCode !== 0) {
+          throw new Error(failureReason(run.logs) ?? "Couldn't find the silence at the end of the audio.");
+        }
+        silences.set(source.key, parseSilenceDetect(run.logs, passLength).map(silence => ({
+          start: rangeStart + silence.start * detection.rate,
+          end: rangeStart + silence.end * detection.rate,
+        })));
+      }
+    };
+
+    /** The user's filters for `source` between `start` and `end`, cutting off any silence it ends with. */
+    const sourceFilters = (source: AudioSource, start: number, end: number): string[] => {
+      const silence = silences.get(source.key)?.find(candidate =>
+        candidate.start > start && candidate.start < end && candidate.end >= end - TRAILING_SILENCE_TOLERANCE
+      );
+      return silenceDetection && silence && end - silence.start >= silenceDetection.minLength
+        ? compileFilterChain(options.filters ?? [], (silence.start - start) / silenceDetection.rate)
+        : userFilters;
+    };
+
+    // First loudnorm pass per source over the whole selection, keyed by
+    // source; every part of a split is then normalized with the same values.
+    const measurements = new Map<string, LoudnormStats>();
+    const measureLoudness = async (settings: LoudnessSettings) => {
+      onPhase?.("Measuring loudness...");
+      const passLength = (rangeEnd - rangeStart) / outputRate;
+      trackProgress(passLength * sources.length);
+      for (let position = 0; position < sources.length; position++) {
+        const source = sources[position];
+        const filters = [
+          ...trimFilters(trim, false),
+          ...channelFilters(source),
+          ...sourceFilters(source, rangeStart, rangeEnd),
+          loudnessMeasureFilter(settings),
+        ];
+        const run = await execWithLogs(instance, [
+          ...trimInputArgs(trim, false),
+          "-i", inputPath,
+          ...mapArgs(source.stream?.index),
+          "-vn", "-af", filters.join(","),
+          "-f", "null", "-",
+        ], signal, position * passLength);
+        const stats = run.exitCode === 0 ? parseLoudnormStats(run.logs) : null;
+        if (!stats) {
+          throw new Error("Couldn't measure the loudness of the audio. It may be silent or damaged.");
+        }
+        measurements.set(source.key, stats);
+      }
+    };
+
+    const detectSilence = async (settings: SplitSettings) => {
+      onPhase?.("Finding silence...");
+      trackProgress(rangeEnd - rangeStart);
+      const run = await execWithLogs(instance, [
+        ...trimInputArgs(trim, false),
+        "-i", inputPath,
+        ...mapArgs(selectedStreams[0]?.index),
+        "-vn", "-af", silenceDetectFilter(settings),
+        "-f", "null", "-",
+      ], signal);
+      // Seeking the input restarts timestamps at zero.
+      return parseSilenceDetect(run.logs).map(silence => ({
+        start: silence.start + rangeStart,
+        end: silence.end + rangeStart,
+      }));
+    };
+
+    const planJobs = async (): Promise<ConversionJob[]> => {
+      const split = options.split;
+      let segments: Segment[] = [];
+      if (split?.mode === "chapters") {
+        segments = clipSegments(chapterSegments(info.chapters), rangeStart, rangeEnd);
+      } else if (split?.mode === "silence") {
+        segments = silenceSegments(await detectSilence(split), rangeStart, rangeEnd);
+      } else if (split?.mode === "length") {
+        segments = fixedLengthSegments(rangeStart, rangeEnd, split.segmentLength);
+      }
+      if (segments.length === 0) {
+        return [{ range: trim, tags }];
+      }
+
+      return segments.map((segment, index) => ({
+        // The selection's fades belong to its first and last part.
+        range: {
+          enabled: true,
+          start: segment.start,
+          end: segment.end,
+          fadeIn: trim.enabled && index === 0 ? trim.fadeIn : 0,
+          fadeOut: trim.enabled && index === segments.length - 1 ? trim.fadeOut : 0,
+        },
+        tags: {
+          ...tags,
+          title: segment.title ?? (tags.title ? `${tags.title} (Part ${index + 1})` : ""),
+          track: `${index + 1}/${segments.length}`,
+        },
+        part: { index, count: segments.length, segment },
+      }));
+    };
+
+    const targetFilters = (target: ConversionTarget, range: TrimSettings, accurateTrim: boolean): string[] => {
+      if (target.format.codec === "copy") return [];
+      const { start, end } = range.enabled ? range : { start: rangeStart, end: rangeEnd };
+      const filters = [...trimFilters(range, accurateTrim), ...channelFilters(target.source), ...sourceFilters(target.source, start, end)];
+      const measured = measurements.get(target.source.key);
+      if (loudness && measured) {
+        // loudnorm always outputs 192 kHz, so bring it back to the source rate.
+        filters.push(loudnessApplyFilter(loudness, measured), `aresample=${target.stream?.sampleRate ?? 48000}`);
+      }
+      return filters;
+    };
+
+    /** Seconds of output a job produces. */
+    const jobLength = (job: ConversionJob) =>
+      (job.range.enabled ? job.range.end - job.range.start : info.duration ?? 0) / outputRate;
+
+    const runTargets = async (targets: ConversionTarget[], job: ConversionJob, offset: number) => {
+      const { range } = job;
+      const copying = targets.some(target => target.format.codec === "copy");
+      // Sample-accurate cuts need a filter, which copied streams can't take.
+      const accurateTrim = !copying && targets.some(target => target.format.lossless === true);
+      if (copying && range.enabled && (range.fadeIn > 0 || range.fadeOut > 0)) {
+        notes.push("Fades were skipped because the original audio is copied without re-encoding.");
+      }
+
+      const args = [...trimInputArgs(range, accurateTrim), "-i", inputPath];
+      const embedCover = cover !== null && targets.some(target => target.format.tags?.coverArt);
+      if (embedCover) {
+        args.push("-i", coverFileName);
+      }
+      for (const target of targets) {
+        args.push(...buildOutputArgs(target.outputFileName, target.format, {
+          settings: target.settings,
+          streamIndex: target.stream?.index,
+          filters: targetFilters(target, range, accurateTrim),
+          tags: job.tags,
+          coverInput: embedCover ? 1 : undefined,
+        }));
+      }
+      return execWithLogs(instance, args, signal, offset);
+    };
+
+    let targets: ConversionTarget[] = [];
+
+    /** Runs every job; returns null when copying failed and everything must be re-encoded instead. */
+    const runJobs = async (jobs: ConversionJob[], allowCopy: boolean): Promise<EngineOutput[] | null> => {
+      const results: EngineOutput[] = [];
+      const taken = [...(naming?.taken ?? [])];
+      // Parts share one progress bar, so the ETA covers the whole split.
+      trackProgress(jobs.reduce((total, job) => total + jobLength(job), 0));
+      let offset = 0;
+      for (let position = 0; position < jobs.length; position++) {
+        const job = jobs[position];
+        onPhase?.(jobs.length > 1 ? `Converting part ${position + 1} of ${jobs.length}...` : null);
+        targets = planTargets(allowCopy, job, taken);
+        const run = await runTargets(targets, job, offset);
+        offset += jobLength(job);
+        if (run.exitCode !== 0) {
+          for (const target of targets) {
+            await instance.deleteFile(target.outputFileName).catch(() => {});
+          }
+          if (targets.some(target => target.format.codec === "copy")) {
+            return null;
+          }
+          throw new Error(failureReason(run.logs) ?? "Conversion failed");
+        }
+
+        for (const target of targets) {
+          const data = await instance.readFile(target.outputFileName);
+          results.push({
+            kind: "audio",
+            name: target.name,
+            formatName: target.format.name,
+            previewType: target.format.previewMimeType ?? target.format.mimeType,
+            label: target.label,
+            duration: jobLength(job) || undefined,
+            loudness: measurements.get(target.source.key),
+            blob: new Blob([data as BlobPart], { type: target.format.mimeType }),
+          });
+          await instance.deleteFile(target.outputFileName);
+        }
+      }
+      return results;
+    };
+
+    try {
+      if (cover) {
+        await instance.writeFile(coverFileName, cover.data, { signal });
+      }
+      if (silenceDetection) {
+        await detectTrailingSilence(silenceDetection);
+      }
+      if (loudness) {
+        await measureLoudness(loudness);
+      }
+
+      const jobs = await planJobs();
+      let outputs = await runJobs(jobs, true);
+      if (!outputs) {
+        notes.length = 0;
+        notes.push(`The original audio couldn't be copied into its container, so it was re-encoded to ${format.name}.`);
+        outputs = await runJobs(jobs, false);
+      }
+      if (!outputs) {
+        throw new Error("Conversion failed");
+      }
+
+      if (options.subtitles && options.subtitles.streams.length > 0) {
+        onPhase?.("Extracting subtitles...");
+        try {
+          const subtitleBaseName = naming
+            ? renderFileName(naming.pattern, namingValues(format, outputFormats[0].settings))
+            : outputBaseName;
+          outputs.push(...await subtitlesWith(instance, file, options.subtitles, trim, subtitleBaseName, signal));
+          if (outputRate !== 1) {
+            notes.push("Subtitles keep their original timing, so they don't follow the speed change.");
+          }
+        } catch (err) {
+          // The audio is done by now; losing it over a subtitle track would be worse.
+          if (signal?.aborted) throw err;
+          notes.push(`The subtitles weren't exported: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      return { outputs, notes: Array.from(new Set(notes)) };
+    } catch (err) {
+      if (!signal?.aborted) {
+        for (const target of targets) {
+          await instance.deleteFile(target.outputFileName).catch(() => {});
+        }
+      }
+      throw err;
+    } finally {
+      onPhase?.(null);
+      if (cover && !signal?.aborted) {
+        await instance.deleteFile(coverFileName).catch(() => {});
+      }
+    }
+  };
+
+  return {
+    formats,
+
+    isCoreCached: () => coreURLs !== null,
+
+    load: (options = {}) => schedule(async () => {
+      logs = [];
+      await ensureLoaded(options);
+    }),
+
+    probe: (file, task = {}) => runTask(task, instance => probeWith(instance, file, task.signal)),
+
+    convert: (file, options, task = {}) => runTask(task, instance => convertWith(instance, file, options, task)),
+
+    waveform: (file, options, task = {}) => runTask(task, async instance => {
+      const inputPath = await ensureInput(instance, file);
+      const waveformFileName = "waveform.pcm";
+      trackProgress(options.duration);
+      const { exitCode } = await execWithLogs(instance, [
+        "-i", inputPath,
+        ...mapArgs(options.streamIndex),
+        "-vn", "-ac", "1", "-ar", String(waveformSampleRate(options.duration)),
+        "-f", "s16le", "-acodec", "pcm_s16le", "-y", waveformFileName,
+      ], task.signal);
+      if (exitCode !== 0) {
+        throw new Error("Could not decode the audio for the waveform.");
+      }
+      const data = await instance.readFile(waveformFileName) as Uint8Array;
+      await instance.deleteFile(waveformFileName);
+      // Copy so the samples start on an even byte offset.
+      const pcm = new Int16Array(data.slice().buffer, 0, Math.floor(data.byteLength / 2));
+      return computePeaks(pcm, options.buckets);
+    }),
+
+    preview: (file, options, task = {}) => runTask(task, async instance => {
+      const inputPath = await ensureInput(instance, file);
+      const previewFileName = "preview.mp3";
+      const filters = compileFilterChain(options.filters ?? []);
+      trackProgress(options.length / playbackRate(options.filters ?? []));
+      const { exitCode } = await execWithLogs(instance, [
+        "-ss", options.from.toFixed(3), "-t", options.length.toFixed(3), "-i", inputPath,
+        ...mapArgs(options.streamIndex),
+        "-vn",
+        ...(filters.length > 0 ? ["-af", filters.join(",")] : []),
+        "-acodec", "libmp3lame", "-q:a", "5", "-y", previewFileName,
+      ], task.signal);
+      if (exitCode !== 0) {
+        throw new Error("Preview failed");
+      }
+      const data = await instance.readFile(previewFileName);
+      await instance.deleteFile(previewFileName);
+      return new Blob([data as BlobPart], { type: "audio/mpeg" });
+    }),
+
+    extractSubtitles: (file, options, task = {}) =>
+      runTask(task, instance => subtitlesWith(instance, file, options, DEFAULT_TRIM, baseNameOf(file), task.signal)),
+
+    grabFrame: (file, seconds, task = {}) => runTask(task, async instance => {
+      const inputPath = await ensureInput(instance, file);
+      const frameFileName = "frame.jpg";
+      const { exitCode } = await execWithLogs(instance, [
+        "-ss", String(seconds), "-i", inputPath, "-frames:v", "1", "-q:v", "2", "-y", frameFileName,
+      ], task.signal);
+      if (exitCode !== 0) {
+        throw new Error("Could not grab a frame at that time.");
+      }
+      const data = await instance.readFile(frameFileName) as Uint8Array;
+      await instance.deleteFile(frameFileName);
+      return data;
+    }),
+
+    release: () => schedule(async () => {
+      if (ffmpeg && mounted) {
+        await unmountInput(ffmpeg);
+      }
+      mounted = null;
+      lastProbe = null;
+    }),
+
+    terminate,
+
+    getLogs: () => [...logs],
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { diagnoseError } from "@/lib/diagnostics";
+
+describe("diagnoseError", () => {
+  it.each([
+    ["notes.pdf is a PDF document, not a video or audio file.", [], "unsupported-input"],
+    ["Failed to load converter. Please check your network connection and try again.", [], "load-failure"],
+    ["Conversion failed", ["Cannot allocate memory"], "out-of-memory"],
+    ["RuntimeError: memory access out of bounds", [], "out-of-memory"],
+    ["This file has no audio track to extract.", [], "no-audio"],
+    ["Conversion failed", ["Output file #0 does not contain any stream"], "no-audio"],
+    ["Conversion failed", ["Unknown encoder 'libfdk_aac'"], "missing-encoder"],
+    ["Conversion failed", ["[mp4 @ 0x1] Could not find tag for codec pcm_s16le in stream #0, codec not currently supported in container"], "unsupported-codec"],
+    ["Conversion failed", ["Decoder (codec truehd) not found for input stream #0:1"], "unsupported-codec"],
+    ["Could not read this file. It may be corrupt or in an unsupported format.", [], "corrupt-input"],
+    ["Conversion failed", ["[mov,mp4,m4a,3gp,3g2,mj2 @ 0x1] moov atom not found"], "corrupt-input"],
+  ])("classifies %j", (message, logs, category) => {
+    expect(diagnoseError(message, logs).category).toBe(category);
+  });
+
+  it("prefers running out of memory over the decode errors it causes", () => {
+    const logs = ["Error while decoding stream #0:1: Invalid data found when processing input", "Aborted(OOM)"];
+    expect(diagnoseError("Conversion failed", logs).category).toBe("out-of-memory");
+  });
+
+  it("falls back to a generic diagnosis", () => {
+    expect(diagnoseError("Something odd happened").category).toBe("unknown");
+  });
+});
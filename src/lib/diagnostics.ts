@@ -0,0 +1,80 @@
+export type ErrorCategory =
+  | "load-failure"
+  | "out-of-memory"
+  | "no-audio"
+  | "missing-encoder"
+  | "unsupported-codec"
+  | "corrupt-input"
+  | "unsupported-input"
+  | "unknown";
+
+export interface Diagnosis {
+  category: ErrorCategory;
+  title: string;
+  /** What the user can do about it. */
+  advice: string;
+}
+
+interface Rule extends Diagnosis {
+  pattern: RegExp;
+}
+
+// Checked in order against the error message and FFmpeg's log, so the more
+// specific causes come first: running out of memory often leaves decode errors behind.
+const RULES: Rule[] = [
+  {
+    category: "unsupported-input",
+    pattern: /not a video or audio file|isn't a video or audio format/i,
+    title: "This file type isn't supported",
+    advice: "Choose a video (MP4, MKV, MOV, WebM, AVI, TS…) or an audio file (MP3, WAV, M4A, FLAC, OGG…).",
+  },
+  {
+    category: "load-failure",
+    pattern: /Failed to load converter|Loading timeout|Integrity check failed|Failed to fetch|NetworkError|Failed to restart converter/i,
+    title: "The converter couldn't be loaded",
+    advice: "Check your internet connection and reload the page. Content blockers and strict company firewalls can also block the ~30 MB converter download.",
+  },
+  {
+    category: "out-of-memory",
+    pattern: /out of memory|Cannot allocate memory|memory access out of bounds|Aborted\(OOM\)|Array buffer allocation failed|ENOMEM/i,
+    title: "The browser ran out of memory",
+    advice: "Close other tabs and try again. If it keeps happening, convert a shorter selection, split the output into parts, or use a desktop browser.",
+  },
+  {
+    category: "no-audio",
+    pattern: /no audio track|does not contain any stream|matches no streams/i,
+    title: "No audio to extract",
+    advice: "This file doesn't contain an audio track. Check that the original video plays with sound.",
+  },
+  {
+    category: "missing-encoder",
+    pattern: /Unknown encoder|Encoder \S+ not found|Automatic encoder selection failed|Error while opening encoder/i,
+    title: "This output format isn't available",
+    advice: "The converter was built without an encoder for this format or these settings. Pick another output format, or reset the advanced settings.",
+  },
+  {
+    category: "unsupported-codec",
+    pattern: /Decoder \(codec \S+\) not found|Unknown decoder|Unsupported codec|not currently supported in container|Could not find codec parameters|Error while opening decoder/i,
+    title: "The audio codec isn't supported",
+    advice: "The audio in this file uses a codec the converter can't read or copy. If you ticked \"Keep original audio\", untick it. Otherwise convert the file with a desktop tool first.",
+  },
+  {
+    category: "corrupt-input",
+    pattern: /Invalid data found when processing input|moov atom not found|Could not read this file|corrupt|truncat|partial file|End of file/i,
+    title: "The file looks damaged",
+    advice: "The file may be incomplete or corrupt, for example an interrupted download or recording. Check that it plays in a media player, or download it again.",
+  },
+];
+
+const UNKNOWN: Diagnosis = {
+  category: "unknown",
+  title: "Conversion Failed",
+  advice: "Try again. If it keeps failing, include the log from the technical details when you report the problem.",
+};
+
+/** Works out why a conversion failed from its error message and FFmpeg's log. */
+export function diagnoseError(message: string, logs: string[] = []): Diagnosis {
+  const text = [message, ...logs].join("\n");
+  const rule = RULES.find(candidate => candidate.pattern.test(text));
+  return rule ? { category: rule.category, title: rule.title, advice: rule.advice } : UNKNOWN;
+}
@@ -0,0 +1,117 @@
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+
+/** Returns human-readable problems with `settings` for `format`, empty when valid. */
+export function validateSettings(format: AudioFormat, settings: EncodingSettings): string[] {
+  const caps = format.capabilities;
+  if (!caps) return [];
+
+  const errors: string[] = [];
+  const usesRateControl = caps.rateControl.length > 0;
+
+  if (usesRateControl && !caps.rateControl.includes(settings.rateControl)) {
+    errors.push(`${format.name} doesn't support ${settings.rateControl.toUpperCase()} encoding.`);
+  }
+  const usesBitrate = settings.rateControl === "cbr" || !caps.vbr;
+  if (usesRateControl && usesBitrate && caps.bitrates && !caps.bitrates.includes(settings.bitrate)) {
+    errors.push(`${settings.bitrate} kb/s isn't a valid ${format.name} bitrate.`);
+  }
+  if (usesRateControl && settings.rateControl === "vbr" && caps.vbr) {
+    const { min, max } = caps.vbr;
+    if (settings.vbrQuality < min || settings.vbrQuality > max) {
+      errors.push(`${format.name} VBR quality must be between ${min} and ${max}.`);
+    }
+  }
+  if (settings.sampleRate !== null && !caps.sampleRates.includes(settings.sampleRate)) {
+    errors.push(`${format.name} doesn't support a ${settings.sampleRate} Hz sample rate.`);
+  }
+  if (settings.channels !== null && (settings.channels < 1 || settings.channels > caps.maxChannels)) {
+    errors.push(`${format.name} supports 1 to ${caps.maxChannels} channels.`);
+  }
+  if (caps.bitDepths && settings.bitDepth !== null && !caps.bitDepths.includes(settings.bitDepth)) {
+    errors.push(`${format.name} doesn't support ${settings.bitDepth}-bit samples.`);
+  }
+
+  // MPEG-2/2.5 layer III (sample rates below 32 kHz) tops out at 160 kb/s.
+  if (
+    format.id === "mp3" &&
+    settings.rateControl === "cbr" &&
+    settings.sampleRate !== null &&
+    settings.sampleRate < 32000 &&
+    settings.bitrate > 160
+  ) {
+    errors.push(`MP3 at ${settings.sampleRate / 1000} kHz supports at most 160 kb/s.`);
+  }
+
+  // The AAC encoder can't spend more than 6144 bits per channel per 1024-sample frame.
+  if (format.codec === "aac" && settings.sampleRate !== null) {
+    const maxBitrate = Math.floor((6144 * settings.sampleRate) / 1024 / 1000) * (settings.channels ?? 2);
+    if (settings.bitrate > maxBitrate) {
+      errors.push(`AAC at ${settings.sampleRate / 1000} kHz supports at most ${maxBitrate} kb/s for this channel count.`);
+    }
+  }
+
+  return errors;
+}
+
+/** Short description of `settings`, e.g. `VBR quality 2 • 44.1 kHz • Mono`. Empty for formats without settings. */
+export function describeSettings(format: AudioFormat, settings?: EncodingSettings): string {
+  const caps = format.capabilities;
+  if (!caps || !settings) return "";
+
+  const parts: string[] = [];
+  if (caps.rateControl.length > 0) {
+    parts.push(settings.rateControl === "vbr" && caps.vbr ? `VBR quality ${settings.vbrQuality}` : `${settings.bitrate} kb/s`);
+  }
+  if (settings.sampleRate !== null) {
+    parts.push(`${settings.sampleRate / 1000} kHz`);
+  }
+  if (settings.channels !== null) {
+    parts.push(settings.channels === 1 ? "Mono" : settings.channels === 2 ? "Stereo" : `${settings.channels} channels`);
+  }
+  if (settings.bitDepth !== null) {
+    parts.push(`${settings.bitDepth}-bit`);
+  }
+  return parts.join(" • ");
+}
+
+/** FFmpeg output options (codec, rate control, resampling) for `format` with `settings`. */
+export function buildEncodingArgs(format: AudioFormat, settings?: EncodingSettings): string[] {
+  const caps = format.capabilities;
+  if (!caps || !settings) {
+    return ["-acodec", format.codec, ...(format.extraArgs ?? [])];
+  }
+
+  const args: string[] = [];
+  const bitDepth = settings.bitDepth;
+  args.push("-acodec", (bitDepth !== null && caps.bitDepthCodecs?.[bitDepth]) || format.codec);
+
+  const sampleFormat = bitDepth !== null ? caps.bitDepthSampleFormats?.[bitDepth] : undefined;
+  if (sampleFormat) {
+    args.push("-sample_fmt", sampleFormat);
+    if (bitDepth === 24) {
+      args.push("-bits_per_raw_sample", "24");
+    }
+  }
+
+  if (caps.rateControl.length > 0) {
+    if (settings.rateControl === "vbr" && caps.vbr) {
+      args.push("-q:a", String(settings.vbrQuality));
+    } else {
+      args.push("-b:a", `${settings.bitrate}k`);
+    }
+    // Opus has no quality scale; VBR targets the bitrate instead.
+    if (format.codec === "libopus") {
+      args.push("-vbr", settings.rateControl === "vbr" ? "on" : "off");
+    }
+  }
+
+  if (settings.sampleRate !== null) {
+    args.push("-ar", String(settings.sampleRate));
+  }
+  if (settings.channels !== null) {
+    args.push("-ac", String(settings.channels));
+  }
+
+  args.push(...(format.extraArgs ?? []));
+  return args;
+}
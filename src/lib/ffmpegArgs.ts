@@ -0,0 +1,42 @@
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+import { buildEncodingArgs } from "@/lib/encodingSettings";
+import { buildTagArgs, type AudioTags } from "@/lib/tags";
+
+export interface OutputOptions {
+  settings?: EncodingSettings;
+  streamIndex?: number;
+  filters?: string[];
+  tags?: AudioTags;
+  /** Input index of the cover image, when one should be embedded. */
+  coverInput?: number;
+}
+
+/** FFmpeg options for one output file, from stream selection through to the file name. */
+export function buildOutputArgs(outputFileName: string, format: AudioFormat, options: OutputOptions = {}): string[] {
+  const { settings, streamIndex, filters, tags, coverInput } = options;
+  const embedCover = coverInput !== undefined && format.tags?.coverArt;
+
+  const args: string[] = [];
+  if (streamIndex !== undefined) {
+    args.push("-map", `0:${streamIndex}`);
+  } else if (embedCover) {
+    args.push("-map", "0:a:0");
+  }
+
+  if (embedCover) {
+    args.push("-map", `${coverInput}:v:0`, "-c:v", "copy", "-disposition:v:0", "attached_pic");
+    args.push("-metadata:s:v", "title=Album cover", "-metadata:s:v", "comment=Cover (front)");
+  } else {
+    args.push("-vn");
+  }
+
+  if (filters && filters.length > 0) {
+    args.push("-af", filters.join(","));
+  }
+  args.push(...buildEncodingArgs(format, settings));
+  if (tags && format.tags) {
+    args.push(...buildTagArgs(tags), ...(format.tags.args ?? []));
+  }
+  args.push(outputFileName);
+  return args;
+}
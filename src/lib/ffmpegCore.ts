@@ -0,0 +1,96 @@
+export const FFMPEG_CORE_VERSION = "0.12.6";
+
+export interface CoreIntegrity {
+  js: string;
+  wasm: string;
+}
+
+export interface CoreSource {
+  baseURL: string;
+  integrity?: CoreIntegrity;
+}
+
+// SRI hashes of the @ffmpeg/core@0.12.6 build. The self-hosted copy comes from
+// the same pinned package, so these hold for both our origin and the CDN.
+const ESM_INTEGRITY: CoreIntegrity = {
+  js: "sha384-H+a0XSA2fcJYIUwy5Jos26+RdN3Flo5q2jQgu1A8XtvG3RxpnEb71F1GOk89G2Qm",
+  wasm: "sha384-SnAthyn82idS4YdVo46XOl86g1sUylqtN6BEYmPDFqzVO3Z3O/Xj1tVlyFqgyW4K",
+};
+
+const UMD_INTEGRITY: CoreIntegrity = {
+  js: "sha384-c9jtXGMa7FHb4zjdEQbYHSk+IhD2qPKTKyyD05+FsJ4hTo1G67o9cgo7APw3U9Lv",
+  wasm: "sha384-SnAthyn82idS4YdVo46XOl86g1sUylqtN6BEYmPDFqzVO3Z3O/Xj1tVlyFqgyW4K",
+};
+
+const SELF_HOSTED_SOURCE: CoreSource = {
+  baseURL: "/ffmpeg-core",
+  integrity: ESM_INTEGRITY,
+};
+
+const CDN_SOURCES: CoreSource[] = [
+  { baseURL: `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/esm`, integrity: ESM_INTEGRITY },
+  { baseURL: `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`, integrity: UMD_INTEGRITY },
+];
+
+function parseSources(raw: string): CoreSource[] {
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("NEXT_PUBLIC_FFMPEG_CORE_SOURCES must be a JSON array");
+  }
+  return parsed.map((entry) => {
+    if (typeof entry === "string") {
+      return { baseURL: entry };
+    }
+    if (entry && typeof entry.baseURL === "string") {
+      const integrity = entry.integrity;
+      if (integrity && (typeof integrity.js !== "string" || typeof integrity.wasm !== "string")) {
+        throw new Error(`Invalid integrity for core source ${entry.baseURL}`);
+      }
+      return { baseURL: entry.baseURL, integrity };
+    }
+    throw new Error("Each core source needs a baseURL");
+  });
+}
+
+/**
+ * Ordered list of places to load the FFmpeg core from.
+ *
+ * Defaults to the copy served from our own origin, followed by the CDN.
+ * `NEXT_PUBLIC_FFMPEG_CORE_SOURCES` replaces the primary list with a JSON array
+ * of base URLs or `{ baseURL, integrity: { js, wasm } }` objects, and
+ * `NEXT_PUBLIC_FFMPEG_CDN_FALLBACK=false` drops the CDN entirely.
+ */
+export function getCoreSources(): CoreSource[] {
+  const configured = process.env.NEXT_PUBLIC_FFMPEG_CORE_SOURCES;
+  const primary = configured ? parseSources(configured) : [SELF_HOSTED_SOURCE];
+  const cdnFallback = process.env.NEXT_PUBLIC_FFMPEG_CDN_FALLBACK !== "false";
+  return cdnFallback ? [...primary, ...CDN_SOURCES] : primary;
+}
+
+const SRI_ALGORITHMS: Record<string, string> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = "";
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/** Throws unless `blob` matches the SRI string (e.g. `sha384-...`). */
+export async function verifyIntegrity(blob: Blob, integrity: string, label: string): Promise<void> {
+  const dash = integrity.indexOf("-");
+  const algorithm = SRI_ALGORITHMS[integrity.slice(0, dash)];
+  if (dash < 0 || !algorithm) {
+    throw new Error(`Unsupported integrity format for ${label}`);
+  }
+  const digest = await crypto.subtle.digest(algorithm, await blob.arrayBuffer());
+  if (toBase64(digest) !== integrity.slice(dash + 1)) {
+    throw new Error(`Integrity check failed for ${label}`);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { detectInputType, sniffFileType } from "@/lib/fileType";
+
+function bytesOf(...parts: (string | number[])[]): Uint8Array<ArrayBuffer> {
+  const bytes: number[] = [];
+  for (const part of parts) {
+    bytes.push(...(typeof part === "string" ? Array.from(part, char => char.charCodeAt(0)) : part));
+  }
+  const padded = new Uint8Array(512);
+  padded.set(bytes);
+  return padded;
+}
+
+function transportStream(header: number): Uint8Array {
+  const bytes = new Uint8Array(1024);
+  for (let offset = header; offset < bytes.length; offset += 188 + header) bytes[offset] = 0x47;
+  return bytes;
+}
+
+describe("sniffFileType", () => {
+  it.each([
+    [bytesOf([0, 0, 0, 0x20], "ftypisom"), "movie.mp4", "video", "MPEG-4"],
+    [bytesOf([0, 0, 0, 0x20], "ftypM4A "), "song.m4a", "audio", "MPEG-4 audio"],
+    [bytesOf([0x1a, 0x45, 0xdf, 0xa3], "....matroska"), "movie.mkv", "video", "Matroska"],
+    [bytesOf([0x1a, 0x45, 0xdf, 0xa3], "....matroska"), "album.mka", "audio", "Matroska"],
+    [bytesOf("RIFF", [0, 0, 0, 0], "WAVE"), "take.wav", "audio", "WAV"],
+    [bytesOf("RIFF", [0, 0, 0, 0], "AVI "), "clip.avi", "video", "AVI"],
+    [bytesOf("fLaC"), "track.flac", "audio", "FLAC"],
+    [bytesOf("ID3"), "track.mp3", "audio", "MP3"],
+    [bytesOf("FLV"), "stream.flv", "video", "FLV"],
+  ])("recognizes %#", (bytes, name, kind, container) => {
+    expect(sniffFileType(bytes, name)).toEqual({ kind, container });
+  });
+
+  it("recognizes transport streams with and without the M2TS timestamp", () => {
+    expect(sniffFileType(transportStream(0), "broadcast.ts")?.container).toBe("MPEG-TS");
+    expect(sniffFileType(transportStream(4), "camera.mts")?.container).toBe("MPEG-TS (M2TS)");
+  });
+
+  it("returns null for unknown content", () => {
+    expect(sniffFileType(bytesOf("hello world"), "notes.txt")).toBeNull();
+  });
+});
+
+describe("detectInputType", () => {
+  it("detects Matroska files the browser gives no MIME type", async () => {
+    const file = new File([bytesOf([0x1a, 0x45, 0xdf, 0xa3])], "movie.mkv");
+    expect(await detectInputType(file)).toEqual({ kind: "video", container: "Matroska" });
+  });
+
+  it("falls back to the MIME type for content it doesn't know", async () => {
+    const file = new File([bytesOf("????")], "clip.xyz", { type: "video/x-unknown" });
+    expect((await detectInputType(file)).kind).toBe("video");
+  });
+
+  it("names the file type when rejecting a document", async () => {
+    const file = new File([bytesOf("%PDF-1.7")], "notes.pdf", { type: "application/pdf" });
+    await expect(detectInputType(file)).rejects.toThrow("notes.pdf is a PDF document, not a video or audio file.");
+  });
+
+  it("rejects unknown content without a media MIME type", async () => {
+    const file = new File([bytesOf("hello")], "notes.txt", { type: "text/plain" });
+    await expect(detectInputType(file)).rejects.toThrow("isn't a video or audio format this converter supports");
+  });
+});
@@ -0,0 +1,118 @@
+export type InputKind = "video" | "audio";
+
+export interface DetectedType {
+  /** Best guess before probing; containers like Matroska hold either. */
+  kind: InputKind;
+  /** Container name for messages, e.g. `Matroska` or `MPEG-TS`. */
+  container: string;
+}
+
+/** Enough for every signature below, including the second packet of an M2TS stream. */
+export const SNIFF_BYTES = 512;
+
+const AUDIO_EXTENSIONS = new Set(["mka", "weba", "wma", "oga", "opus", "m4a", "m4b"]);
+
+// Signatures of common files that get picked by mistake, named in the error.
+const NOT_MEDIA: { name: string; test: (bytes: Uint8Array) => boolean }[] = [
+  { name: "a PDF document", test: bytes => ascii(bytes, 0, 5) === "%PDF-" },
+  { name: "a ZIP archive", test: bytes => ascii(bytes, 0, 4) === "PK\x03\x04" },
+  { name: "a PNG image", test: bytes => bytes[0] === 0x89 && ascii(bytes, 1, 3) === "PNG" },
+  { name: "a JPEG image", test: bytes => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  { name: "a GIF image", test: bytes => ascii(bytes, 0, 4) === "GIF8" },
+];
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+}
+
+function extensionOf(name: string): string {
+  const match = name.match(/\.([^./]+)$/);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/** Transport streams repeat a 0x47 sync byte every packet, after a 4-byte timestamp in M2TS/MTS. */
+function isTransportStream(bytes: Uint8Array, header: number): boolean {
+  const packet = 188 + header;
+  return [0, 1, 2].every(n => bytes[header + n * packet] === 0x47);
+}
+
+/** Recognizes a media container from the first bytes of a file, or null when it isn't one we know. */
+export function sniffFileType(bytes: Uint8Array, fileName: string): DetectedType | null {
+  const extension = extensionOf(fileName);
+  const guess = (container: string): DetectedType => ({
+    kind: AUDIO_EXTENSIONS.has(extension) ? "audio" : "video",
+    container,
+  });
+
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    const brand = ascii(bytes, 8, 4);
+    if (/^M4[ABP] $/.test(brand)) return { kind: "audio", container: "MPEG-4 audio" };
+    if (brand === "qt  ") return { kind: "video", container: "QuickTime" };
+    if (brand.startsWith("3g")) return { kind: "video", container: "3GPP" };
+    return guess("MPEG-4");
+  }
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return guess(ascii(bytes, 0, 64).includes("webm") ? "WebM" : "Matroska");
+  }
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const form = ascii(bytes, 8, 4);
+    if (form === "WAVE") return { kind: "audio", container: "WAV" };
+    if (form === "AVI ") return { kind: "video", container: "AVI" };
+    return null;
+  }
+  if (ascii(bytes, 0, 4) === "FORM" && /^AIF[FC]$/.test(ascii(bytes, 8, 4))) {
+    return { kind: "audio", container: "AIFF" };
+  }
+  if (ascii(bytes, 0, 3) === "FLV") return { kind: "video", container: "FLV" };
+  if (ascii(bytes, 0, 4) === "OggS") {
+    // The first page holds the first stream's codec header.
+    return { kind: ascii(bytes, 0, 64).includes("theora") ? "video" : "audio", container: "Ogg" };
+  }
+  if (bytes[0] === 0x30 && bytes[1] === 0x26 && bytes[2] === 0xb2 && bytes[3] === 0x75) {
+    return guess("ASF");
+  }
+  if (bytes[0] === 0x00 && bytes[1] === 0x00 && bytes[2] === 0x01 && (bytes[3] === 0xba || bytes[3] === 0xb3)) {
+    return { kind: "video", container: "MPEG-PS" };
+  }
+  if (ascii(bytes, 0, 4) === ".RMF") return { kind: "video", container: "RealMedia" };
+  if (isTransportStream(bytes, 0)) return { kind: "video", container: "MPEG-TS" };
+  if (isTransportStream(bytes, 4)) return { kind: "video", container: "MPEG-TS (M2TS)" };
+
+  if (ascii(bytes, 0, 4) === "fLaC") return { kind: "audio", container: "FLAC" };
+  if (ascii(bytes, 0, 3) === "ID3") return { kind: "audio", container: "MP3" };
+  if (ascii(bytes, 0, 5) === "#!AMR") return { kind: "audio", container: "AMR" };
+  if (ascii(bytes, 0, 4) === "caff") return { kind: "audio", container: "CAF" };
+  if (ascii(bytes, 0, 4) === "MAC ") return { kind: "audio", container: "Monkey's Audio" };
+  if (ascii(bytes, 0, 4) === "wvpk") return { kind: "audio", container: "WavPack" };
+  if (bytes[0] === 0x0b && bytes[1] === 0x77) return { kind: "audio", container: "AC-3" };
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    // Frame sync; layer bits of 00 mean AAC in ADTS, anything else is MPEG audio.
+    return { kind: "audio", container: (bytes[1] & 0x06) === 0 ? "AAC" : "MP3" };
+  }
+  return null;
+}
+
+/** What a file that isn't recognized appears to be instead, for the error message. */
+export function describeNonMedia(bytes: Uint8Array): string | null {
+  return NOT_MEDIA.find(candidate => candidate.test(bytes))?.name ?? null;
+}
+
+/**
+ * Works out what kind of input a file is from its content, since browsers
+ * report no MIME type for many MKV, FLV and TS files. Unrecognized files are
+ * still accepted when the browser calls them audio or video; otherwise this
+ * throws a message saying the format isn't supported.
+ */
+export async function detectInputType(file: File): Promise<DetectedType> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const detected = sniffFileType(bytes, file.name);
+  if (detected) return detected;
+
+  if (file.type.startsWith("video/") || file.type.startsWith("audio/")) {
+    return { kind: file.type.startsWith("audio/") ? "audio" : "video", container: file.type };
+  }
+  const actual = describeNonMedia(bytes);
+  throw new Error(actual
+    ? `${file.name} is ${actual}, not a video or audio file.`
+    : `${file.name} isn't a video or audio format this converter supports.`);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { compileFilterChain, defaultFilterChain, trailingSilenceDetection, type FilterId } from "@/lib/filters";
+
+function chainWith(...ids: FilterId[]) {
+  return defaultFilterChain().map(step => (ids.includes(step.id) ? { ...step, enabled: true } : step));
+}
+
+describe("compileFilterChain", () => {
+  it("trims only leading silence in a single pass", () => {
+    expect(compileFilterChain(chainWith("silence"))).toEqual([
+      "silenceremove=start_periods=1:start_duration=0.5:start_threshold=-50dB",
+    ]);
+  });
+
+  it("cuts the tail where the trailing silence starts, before trimming the lead", () => {
+    const filters = compileFilterChain(chainWith("highpass", "silence"), 42.5);
+    expect(filters).toEqual([
+      "highpass=f=80",
+      "atrim=end=42.500",
+      "silenceremove=start_periods=1:start_duration=0.5:start_threshold=-50dB",
+    ]);
+    expect(filters.join(",")).not.toMatch(/areverse|stop_periods/);
+  });
+});
+
+describe("trailingSilenceDetection", () => {
+  it("detects silence after the steps that come before it", () => {
+    const chain = chainWith("silence", "tempo");
+    const tempoFirst = [chain.find(step => step.id === "tempo")!, ...chain.filter(step => step.id !== "tempo")];
+    expect(trailingSilenceDetection(tempoFirst)).toEqual({
+      filters: ["atempo=1.25", "silencedetect=noise=-50dB:d=0.5"],
+      rate: 1.25,
+      minLength: 0.5,
+    });
+    expect(trailingSilenceDetection(chainWith("highpass"))).toBeNull();
+  });
+});
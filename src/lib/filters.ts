@@ -0,0 +1,151 @@
+export type FilterId = "highpass" | "lowpass" | "denoise" | "silence" | "tempo" | "gain";
+
+export interface FilterParam {
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface FilterDefinition {
+  id: FilterId;
+  name: string;
+  params: FilterParam[];
+  /** FFmpeg filter graph segment for validated `values`. */
+  build: (values: Record<string, number>) => string;
+}
+
+/** One entry of the user's chain; the array order is the processing order. */
+export interface FilterStep {
+  id: FilterId;
+  enabled: boolean;
+  values: Record<string, number>;
+}
+
+export const FILTER_DEFINITIONS: FilterDefinition[] = [
+  {
+    id: "highpass",
+    name: "High-pass",
+    params: [{ key: "frequency", label: "Cutoff", unit: "Hz", min: 20, max: 2000, step: 10, default: 80 }],
+    build: ({ frequency }) => `highpass=f=${frequency}`,
+  },
+  {
+    id: "lowpass",
+    name: "Low-pass",
+    params: [{ key: "frequency", label: "Cutoff", unit: "Hz", min: 1000, max: 20000, step: 100, default: 12000 }],
+    build: ({ frequency }) => `lowpass=f=${frequency}`,
+  },
+  {
+    id: "denoise",
+    name: "Noise reduction",
+    params: [
+      { key: "reduction", label: "Reduction", unit: "dB", min: 1, max: 97, step: 1, default: 12 },
+      { key: "floor", label: "Noise floor", unit: "dB", min: -80, max: -20, step: 1, default: -50 },
+    ],
+    build: ({ reduction, floor }) => `afftdn=nr=${reduction}:nf=${floor}`,
+  },
+  {
+    id: "silence",
+    name: "Trim leading/trailing silence",
+    params: [
+      { key: "threshold", label: "Threshold", unit: "dB", min: -80, max: -20, step: 1, default: -50 },
+      { key: "duration", label: "Shortest silence", unit: "s", min: 0.1, max: 10, step: 0.1, default: 0.5 },
+    ],
+    // Only the leading silence; silenceremove can't tell trailing silence from a
+    // pause without holding the stream, so the tail is cut at the point a
+    // separate detection pass found, see `trailingSilenceDetection`.
+    build: ({ threshold, duration }) =>
+      `silenceremove=start_periods=1:start_duration=${duration}:start_threshold=${threshold}dB`,
+  },
+  {
+    id: "tempo",
+    name: "Speed (keeps pitch)",
+    params: [{ key: "factor", label: "Speed", unit: "×", min: 0.5, max: 4, step: 0.05, default: 1.25 }],
+    build: ({ factor }) => `atempo=${factor}`,
+  },
+  {
+    id: "gain",
+    name: "Volume",
+    params: [{ key: "gain", label: "Gain", unit: "dB", min: -30, max: 30, step: 0.5, default: 3 }],
+    build: ({ gain }) => `volume=${gain}dB`,
+  },
+];
+
+export function getFilterDefinition(id: FilterId): FilterDefinition {
+  return FILTER_DEFINITIONS.find(definition => definition.id === id)!;
+}
+
+/** Every filter, switched off, in a sensible processing order. */
+export function defaultFilterChain(): FilterStep[] {
+  return FILTER_DEFINITIONS.map(definition => ({
+    id: definition.id,
+    enabled: false,
+    values: Object.fromEntries(definition.params.map(param => [param.key, param.default])),
+  }));
+}
+
+export function validateFilterChain(chain: FilterStep[]): string[] {
+  const errors: string[] = [];
+  for (const step of chain) {
+    if (!step.enabled) continue;
+    const definition = getFilterDefinition(step.id);
+    for (const param of definition.params) {
+      const value = step.values[param.key];
+      if (!(value >= param.min && value <= param.max)) {
+        errors.push(`${definition.name}: ${param.label.toLowerCase()} must be between ${param.min} and ${param.max} ${param.unit}.`);
+      }
+    }
+  }
+  const highpass = chain.find(step => step.id === "highpass" && step.enabled);
+  const lowpass = chain.find(step => step.id === "lowpass" && step.enabled);
+  if (highpass && lowpass && highpass.values.frequency >= lowpass.values.frequency) {
+    errors.push("The high-pass cutoff must be below the low-pass cutoff.");
+  }
+  return errors;
+}
+
+/**
+ * Filter graph segments for the enabled steps, in chain order. `silenceEnd` is
+ * where the trailing silence starts, in seconds of the audio reaching the
+ * silence step; without it only leading silence is trimmed.
+ */
+export function compileFilterChain(chain: FilterStep[], silenceEnd?: number): string[] {
+  return chain
+    .filter(step => step.enabled)
+    .flatMap(step => {
+      const filter = getFilterDefinition(step.id).build(step.values);
+      return step.id === "silence" && silenceEnd !== undefined
+        ? [`atrim=end=${silenceEnd.toFixed(3)}`, filter]
+        : [filter];
+    });
+}
+
+/**
+ * The pass that finds trailing silence for an enabled silence step: the steps
+ * before it, then silencedetect with its settings. `rate` maps the times it
+ * reports back to the source's timeline. Null when silence isn't trimmed.
+ */
+export function trailingSilenceDetection(chain: FilterStep[]): { filters: string[]; rate: number; minLength: number } | null {
+  const position = chain.findIndex(step => step.id === "silence" && step.enabled);
+  if (position < 0) return null;
+  const { threshold, duration } = chain[position].values;
+  const before = chain.slice(0, position);
+  return {
+    filters: [...compileFilterChain(before), `silencedetect=noise=${threshold}dB:d=${duration}`],
+    rate: playbackRate(before),
+    minLength: duration,
+  };
+}
+
+/**
+ * How much faster the filtered audio plays than the source, so the output's
+ * timeline can be mapped back to the input's.
+ */
+export function playbackRate(chain: FilterStep[]): number {
+  return chain
+    .filter(step => step.enabled && step.id === "tempo")
+    .reduce((rate, step) => rate * step.values.factor, 1);
+}
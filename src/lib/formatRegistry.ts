@@ -0,0 +1,20 @@
+import { AUDIO_FORMATS, type AudioFormat } from "@/lib/audioFormats";
+
+/** The output formats a ConversionEngine can produce. */
+export interface FormatRegistry {
+  list(): AudioFormat[];
+  get(id: string): AudioFormat | undefined;
+  /** Adds a format, replacing any existing one with the same id. */
+  register(format: AudioFormat): void;
+}
+
+export function createFormatRegistry(formats: AudioFormat[] = AUDIO_FORMATS): FormatRegistry {
+  const entries = new Map(formats.map(format => [format.id, format]));
+  return {
+    list: () => Array.from(entries.values()),
+    get: (id) => entries.get(id),
+    register: (format) => {
+      entries.set(format.id, format);
+    },
+  };
+}
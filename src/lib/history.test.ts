@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { AUDIO_FORMATS } from "@/lib/audioFormats";
+import { findPreviousConversion, summarizeSettings, type HistoryEntry } from "@/lib/history";
+import { DEFAULT_SPLIT } from "@/lib/split";
+import { DEFAULT_TRIM } from "@/lib/trim";
+
+const mp3 = AUDIO_FORMATS.find(format => format.id === "mp3")!;
+
+function entry(id: string, name: string, size: number): HistoryEntry {
+  return {
+    id,
+    createdAt: 0,
+    source: { name, size, lastModified: 0 },
+    formatName: "MP3",
+    summary: "",
+    settings: { format: "mp3" },
+    outputs: [],
+  };
+}
+
+describe("summarizeSettings", () => {
+  it("describes the encoding and the steps that were used", () => {
+    const summary = summarizeSettings(mp3, {
+      format: "mp3",
+      settings: mp3.defaults,
+      trim: { ...DEFAULT_TRIM, enabled: true, start: 10, end: 20 },
+      split: { ...DEFAULT_SPLIT, mode: "chapters" },
+    });
+    expect(summary).toBe("VBR quality 2 • Trimmed 0:00:10.000–0:00:20.000 • Split by chapters");
+  });
+
+  it("leaves out the encoding when the original audio is kept", () => {
+    expect(summarizeSettings(mp3, { format: "mp3", settings: mp3.defaults, keepOriginal: true })).toBe("Original audio");
+  });
+});
+
+describe("findPreviousConversion", () => {
+  it("matches the newest entry with the same name and size", () => {
+    const entries = [entry("b", "talk.mp4", 100), entry("a", "talk.mp4", 100)];
+    const file = new File([new Uint8Array(100)], "talk.mp4");
+    expect(findPreviousConversion(entries, file)?.id).toBe("b");
+  });
+
+  it("ignores a different file with the same name", () => {
+    const file = new File([new Uint8Array(50)], "talk.mp4");
+    expect(findPreviousConversion([entry("a", "talk.mp4", 100)], file)).toBeUndefined();
+  });
+});
@@ -0,0 +1,252 @@
+import type { AudioFormat } from "@/lib/audioFormats";
+import { describeChannels } from "@/lib/channels";
+import type { ConversionOptions, EngineOutput } from "@/lib/conversionEngine";
+import { describeSettings } from "@/lib/encodingSettings";
+import { formatTime } from "@/lib/formatting";
+import { SUBTITLE_FORMATS } from "@/lib/subtitles";
+import { formatTimestamp } from "@/lib/trim";
+
+/** What's needed to repeat a conversion. Tags and cover art belong to one file, so they're left out. */
+export type HistorySettings = Pick<
+  ConversionOptions,
+  "format" | "settings" | "additionalFormats" | "track" | "keepOriginal" | "trim" | "channels" | "filters" | "loudness" | "split" | "subtitles"
+>;
+
+export interface HistoryOutput {
+  kind: EngineOutput["kind"];
+  name: string;
+  size: number;
+  mimeType: string;
+  previewType: string;
+  label?: string;
+  duration?: number;
+  /** False when only the details were kept, because saving was off or storage was full. */
+  stored: boolean;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  source: { name: string; size: number; lastModified: number };
+  formatName: string;
+  /** One line describing the settings, e.g. `VBR quality 2 • Trimmed 0:00:10.000–0:00:20.000`. */
+  summary: string;
+  settings: HistorySettings;
+  outputs: HistoryOutput[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export interface HistoryStore {
+  /** All entries, newest first. */
+  list(): Promise<HistoryEntry[]>;
+  /**
+   * Records a conversion. The audio is saved too when `blobs` are given and
+   * there's room for them; the returned entry says whether it was.
+   */
+  add(entry: Omit<HistoryEntry, "id">, blobs?: Blob[]): Promise<HistoryEntry>;
+  getOutput(id: string, index: number): Promise<Blob | null>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = "video-audio-converter";
+const DB_VERSION = 1;
+const ENTRIES = "history";
+const OUTPUTS = "historyOutputs";
+
+/** Share of the quota history may fill, leaving room for the browser's own caches. */
+const MAX_QUOTA_SHARE = 0.8;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB isn't available in this browser."));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ENTRIES)) {
+      db.createObjectStore(ENTRIES, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(OUTPUTS)) {
+      db.createObjectStore(OUTPUTS);
+    }
+  };
+  return promisify(request);
+}
+
+const outputKey = (id: string, index: number) => `${id}:${index}`;
+const outputKeys = (id: string) => IDBKeyRange.bound(`${id}:`, `${id}:\uffff`);
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** How much of the origin's storage is in use, when the browser says. */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+}
+
+export function createHistoryStore(): HistoryStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const database = () => (db ??= openDatabase());
+
+  const hasRoomFor = async (bytes: number) => {
+    const storage = await getStorageUsage();
+    return !storage || storage.usage + bytes <= storage.quota * MAX_QUOTA_SHARE;
+  };
+
+  const put = async (entry: HistoryEntry, blobs: Blob[]) => {
+    const transaction = (await database()).transaction([ENTRIES, OUTPUTS], "readwrite");
+    transaction.objectStore(ENTRIES).put(entry);
+    blobs.forEach((blob, index) => transaction.objectStore(OUTPUTS).put(blob, outputKey(entry.id, index)));
+    await completion(transaction);
+  };
+
+  return {
+    list: async () => {
+      const transaction = (await database()).transaction(ENTRIES, "readonly");
+      const entries = await promisify(transaction.objectStore(ENTRIES).getAll() as IDBRequest<HistoryEntry[]>);
+      return entries.sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    add: async (details, blobs) => {
+      const id = createId();
+      const size = blobs?.reduce((total, blob) => total + blob.size, 0) ?? 0;
+      const store = blobs !== undefined && await hasRoomFor(size);
+      const withStored = (stored: boolean): HistoryEntry => ({
+        ...details,
+        id,
+        outputs: details.outputs.map(output => ({ ...output, stored })),
+      });
+
+      if (store) {
+        const entry = withStored(true);
+        try {
+          await put(entry, blobs);
+          return entry;
+        } catch (err) {
+          // The estimate can be optimistic; keep the details even when the audio doesn't fit.
+          if (!(err instanceof DOMException && err.name === "QuotaExceededError")) throw err;
+        }
+      }
+      const entry = withStored(false);
+      await put(entry, []);
+      return entry;
+    },
+
+    getOutput: async (id, index) => {
+      const transaction = (await database()).transaction(OUTPUTS, "readonly");
+      const blob = await promisify(transaction.objectStore(OUTPUTS).get(outputKey(id, index)) as IDBRequest<Blob | undefined>);
+      return blob ?? null;
+    },
+
+    remove: async (id) => {
+      const transaction = (await database()).transaction([ENTRIES, OUTPUTS], "readwrite");
+      transaction.objectStore(ENTRIES).delete(id);
+      transaction.objectStore(OUTPUTS).delete(outputKeys(id));
+      await completion(transaction);
+    },
+
+    clear: async () => {
+      const transaction = (await database()).transaction([ENTRIES, OUTPUTS], "readwrite");
+      transaction.objectStore(ENTRIES).clear();
+      transaction.objectStore(OUTPUTS).clear();
+      await completion(transaction);
+    },
+  };
+}
+
+/** One line describing what a conversion did beyond picking the format. */
+export function summarizeSettings(format: AudioFormat, settings: HistorySettings): string {
+  const parts: string[] = [];
+  if (settings.keepOriginal) {
+    parts.push("Original audio");
+  } else {
+    const encoding = describeSettings(format, settings.settings);
+    if (encoding) parts.push(encoding);
+  }
+  if (settings.track === "all") {
+    parts.push("All tracks");
+  }
+  if (settings.trim?.enabled) {
+    parts.push(`Trimmed ${formatTimestamp(settings.trim.start)}–${formatTimestamp(settings.trim.end)}`);
+  }
+  const channels = settings.channels ? describeChannels(settings.channels) : "";
+  if (channels) {
+    parts.push(channels);
+  }
+  const filters = settings.filters?.filter(step => step.enabled).length ?? 0;
+  if (filters > 0) {
+    parts.push(filters === 1 ? "1 filter" : `${filters} filters`);
+  }
+  if (settings.loudness?.enabled) {
+    parts.push(`${settings.loudness.integrated} LUFS`);
+  }
+  if (settings.split?.mode === "chapters") {
+    parts.push("Split by chapters");
+  } else if (settings.split?.mode === "silence") {
+    parts.push("Split at silences");
+  } else if (settings.split?.mode === "length") {
+    parts.push(`Split every ${formatTime(settings.split.segmentLength)}`);
+  }
+  const subtitles = settings.subtitles?.streams.length ?? 0;
+  if (settings.subtitles && subtitles > 0) {
+    const subtitleFormat = SUBTITLE_FORMATS[settings.subtitles.format].name;
+    parts.push(subtitles === 1 ? `1 ${subtitleFormat} subtitle` : `${subtitles} ${subtitleFormat} subtitles`);
+  }
+  return parts.join(" • ");
+}
+
+/** Builds the entry recorded after converting `file` with `settings`. */
+export function historyEntryFor(
+  file: File,
+  format: AudioFormat,
+  settings: HistorySettings,
+  outputs: EngineOutput[],
+): Omit<HistoryEntry, "id"> {
+  return {
+    createdAt: Date.now(),
+    source: { name: file.name, size: file.size, lastModified: file.lastModified },
+    formatName: outputs.some(output => output.kind === "audio")
+      ? Array.from(new Set(outputs.filter(output => output.kind === "audio").map(output => output.formatName))).join(" + ")
+      : format.name,
+    summary: summarizeSettings(format, settings),
+    settings,
+    outputs: outputs.map(output => ({
+      kind: output.kind,
+      name: output.name,
+      size: output.blob.size,
+      mimeType: output.blob.type,
+      previewType: output.previewType,
+      label: output.label,
+      duration: output.duration,
+      stored: false,
+    })),
+  };
+}
+
+/** The most recent conversion of `file`, recognized by name and size. */
+export function findPreviousConversion(entries: HistoryEntry[], file: File): HistoryEntry | undefined {
+  return entries.find(entry => entry.source.name === file.name && entry.source.size === file.size);
+}
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest";
+import { inputPath } from "@/lib/inputFile";
+
+describe("inputPath", () => {
+  it("keeps the file's extension so FFmpeg can use it as a hint", () => {
+    expect(inputPath(new File([], "Concert.2024.mkv"))).toBe("/input/input.mkv");
+  });
+
+  it("leaves the extension out when the name has none", () => {
+    expect(inputPath(new File([], "Recording"))).toBe("/input/input");
+  });
+});
@@ -0,0 +1,49 @@
+import { FFFSType, type FFmpeg } from "@ffmpeg/ffmpeg";
+
+type MountableFFmpeg = Pick<FFmpeg, "createDir" | "mount" | "unmount">;
+
+const DEFAULT_MAX_INPUT_MB = 2048;
+const INPUT_DIR = "/input";
+
+/**
+ * Largest input we accept, in bytes. Mounted files aren't copied into memory,
+ * but FFmpeg's 32-bit WebAssembly build still struggles past a couple of GB.
+ * `NEXT_PUBLIC_MAX_INPUT_MB` overrides the default.
+ */
+export function getMaxInputBytes(): number {
+  const configured = Number(process.env.NEXT_PUBLIC_MAX_INPUT_MB);
+  const megabytes = configured > 0 ? configured : DEFAULT_MAX_INPUT_MB;
+  return megabytes * 1024 * 1024;
+}
+
+/** Path FFmpeg reads `file` from once it's mounted. */
+export function inputPath(file: File): string {
+  const dot = file.name.lastIndexOf(".");
+  return `${INPUT_DIR}/input${dot >= 0 ? file.name.substring(dot) : ""}`;
+}
+
+/**
+ * Mounts `file` read-only with WORKERFS, so FFmpeg reads it lazily from the
+ * browser's File instead of from a full copy in the worker's memory.
+ * Replaces whatever input was mounted before.
+ */
+export async function mountInput(ffmpeg: MountableFFmpeg, file: File): Promise<string> {
+  await unmountInput(ffmpeg);
+  await ffmpeg.createDir(INPUT_DIR).catch(() => {});
+  const path = inputPath(file);
+  await ffmpeg.mount(
+    FFFSType.WORKERFS,
+    { blobs: [{ name: path.substring(INPUT_DIR.length + 1), data: file }] },
+    INPUT_DIR,
+  );
+  return path;
+}
+
+/** Unmounts the current input, if any. */
+export async function unmountInput(ffmpeg: MountableFFmpeg): Promise<void> {
+  try {
+    await ffmpeg.unmount(INPUT_DIR);
+  } catch {
+    // Nothing was mounted, or the worker has already been terminated.
+  }
+}
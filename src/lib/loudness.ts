@@ -0,0 +1,123 @@
+export type LoudnessPresetId = "podcast" | "streaming" | "broadcast" | "custom";
+
+export interface LoudnessTarget {
+  /** Integrated loudness in LUFS. */
+  integrated: number;
+  /** Maximum true peak in dBTP. */
+  truePeak: number;
+  /** Loudness range in LU. */
+  lra: number;
+}
+
+export interface LoudnessSettings extends LoudnessTarget {
+  enabled: boolean;
+  preset: LoudnessPresetId;
+}
+
+export interface LoudnessPreset extends LoudnessTarget {
+  id: Exclude<LoudnessPresetId, "custom">;
+  name: string;
+}
+
+export const LOUDNESS_PRESETS: LoudnessPreset[] = [
+  { id: "podcast", name: "Podcast (-16 LUFS)", integrated: -16, truePeak: -1.5, lra: 11 },
+  { id: "streaming", name: "Streaming (-14 LUFS)", integrated: -14, truePeak: -1, lra: 11 },
+  { id: "broadcast", name: "Broadcast, EBU R128 (-23 LUFS)", integrated: -23, truePeak: -1, lra: 20 },
+];
+
+export const DEFAULT_LOUDNESS: LoudnessSettings = { enabled: false, preset: "podcast", ...LOUDNESS_PRESETS[0] };
+
+/** Values loudnorm prints for one side (input or output) of a pass. */
+export interface LoudnessMeasurement extends LoudnessTarget {
+  threshold: number;
+}
+
+export interface LoudnormStats {
+  input: LoudnessMeasurement;
+  output: LoudnessMeasurement;
+  /** "linear" or "dynamic"; loudnorm falls back to dynamic when linear gain would break the true-peak limit. */
+  normalizationType: string;
+  targetOffset: number;
+}
+
+export function validateLoudness(settings: LoudnessSettings): string[] {
+  if (!settings.enabled) return [];
+  const errors: string[] = [];
+  // Ranges accepted by the loudnorm filter in the bundled FFmpeg 5.1.
+  if (!(settings.integrated >= -70 && settings.integrated <= -5)) {
+    errors.push("Target loudness must be between -70 and -5 LUFS.");
+  }
+  if (!(settings.truePeak >= -9 && settings.truePeak <= 0)) {
+    errors.push("True peak must be between -9 and 0 dBTP.");
+  }
+  if (!(settings.lra >= 1 && settings.lra <= 20)) {
+    errors.push("Loudness range must be between 1 and 20 LU.");
+  }
+  return errors;
+}
+
+function targetOptions(target: LoudnessTarget): string {
+  return `I=${target.integrated}:TP=${target.truePeak}:LRA=${target.lra}`;
+}
+
+/** First pass: analyse only, printing the measurements as JSON to the log. */
+export function loudnessMeasureFilter(settings: LoudnessSettings): string {
+  return `loudnorm=${targetOptions(settings)}:print_format=json`;
+}
+
+/** Second pass: linear normalization using the first pass's measurements. */
+export function loudnessApplyFilter(settings: LoudnessSettings, measured: LoudnormStats): string {
+  const { input } = measured;
+  return [
+    `loudnorm=${targetOptions(settings)}`,
+    `measured_I=${input.integrated}`,
+    `measured_TP=${input.truePeak}`,
+    `measured_LRA=${input.lra}`,
+    `measured_thresh=${input.threshold}`,
+    `offset=${measured.targetOffset}`,
+    "linear=true",
+  ].join(":");
+}
+
+/**
+ * Reads the JSON block loudnorm prints when the filter closes. The most recent
+ * block wins, so the logs of an earlier pass don't need to be cleared.
+ */
+export function parseLoudnormStats(logs: string[]): LoudnormStats | null {
+  const start = logs.map(line => line.trim()).lastIndexOf("{");
+  if (start === -1) return null;
+  const end = logs.findIndex((line, i) => i > start && line.trim() === "}");
+  if (end === -1) return null;
+
+  let raw: Record<string, string>;
+  try {
+    raw = JSON.parse(logs.slice(start, end + 1).join("\n"));
+  } catch {
+    return null;
+  }
+  const num = (key: string) => parseFloat(raw[key]);
+  const stats: LoudnormStats = {
+    input: {
+      integrated: num("input_i"),
+      truePeak: num("input_tp"),
+      lra: num("input_lra"),
+      threshold: num("input_thresh"),
+    },
+    output: {
+      integrated: num("output_i"),
+      truePeak: num("output_tp"),
+      lra: num("output_lra"),
+      threshold: num("output_thresh"),
+    },
+    normalizationType: raw.normalization_type ?? "",
+    targetOffset: num("target_offset"),
+  };
+  // Silent input measures as -inf, which can't be fed back into the second pass.
+  const measured = [stats.input.integrated, stats.input.truePeak, stats.input.lra, stats.input.threshold, stats.targetOffset];
+  return measured.every(Number.isFinite) ? stats : null;
+}
+
+/** One-line summary of a measurement, e.g. `-23.4 LUFS • -3.1 dBTP peak • 6.2 LU range`. */
+export function describeLoudness(measurement: LoudnessTarget): string {
+  return `${measurement.integrated.toFixed(1)} LUFS • ${measurement.truePeak.toFixed(1)} dBTP peak • ${measurement.lra.toFixed(1)} LU range`;
+}
@@ -0,0 +1,290 @@
+export type StreamType = "video" | "audio" | "subtitle" | "data" | "attachment";
+
+interface BaseStream {
+  /** Absolute stream index within the input, usable as `-map 0:<index>`. */
+  index: number;
+  type: StreamType;
+  codec: string;
+  /** Raw codec details as printed by FFmpeg, e.g. `aac (LC) (mp4a / 0x6134706D)`. */
+  codecDetail: string;
+  language?: string;
+  title?: string;
+  bitrate?: number;
+  isDefault: boolean;
+  metadata: Record<string, string>;
+}
+
+export interface AudioStream extends BaseStream {
+  type: "audio";
+  sampleRate?: number;
+  channels?: number;
+  channelLayout?: string;
+  sampleFormat?: string;
+}
+
+export interface VideoStream extends BaseStream {
+  type: "video";
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** Cover art stored as a one-frame video stream, as in MP3 and M4A files. */
+  attachedPicture: boolean;
+}
+
+export interface OtherStream extends BaseStream {
+  type: "subtitle" | "data" | "attachment";
+}
+
+export type MediaStream = AudioStream | VideoStream | OtherStream;
+
+export interface Chapter {
+  /** Start and end in seconds. */
+  start: number;
+  end: number;
+  title?: string;
+  metadata: Record<string, string>;
+}
+
+export interface MediaInfo {
+  /** Demuxer names, e.g. `mov,mp4,m4a,3gp,3g2,mj2` or `matroska,webm`. */
+  container: string;
+  /** Duration in seconds, or null when the container doesn't report one. */
+  duration: number | null;
+  /** Overall bitrate in kb/s. */
+  bitrate: number | null;
+  metadata: Record<string, string>;
+  streams: MediaStream[];
+  chapters: Chapter[];
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  "2.1": 3,
+  "3.0": 3,
+  "3.0(back)": 3,
+  "3.1": 4,
+  "4.0": 4,
+  quad: 4,
+  "quad(side)": 4,
+  "4.1": 5,
+  "5.0": 5,
+  "5.0(side)": 5,
+  "5.1": 6,
+  "5.1(side)": 6,
+  "6.0": 6,
+  "6.1": 7,
+  "7.0": 7,
+  "7.1": 8,
+  "7.1(wide)": 8,
+};
+
+export function channelCountForLayout(layout: string): number | undefined {
+  if (CHANNEL_LAYOUTS[layout] !== undefined) return CHANNEL_LAYOUTS[layout];
+  const match = layout.match(/^(\d+) channels/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/** Parses `HH:MM:SS.ms` into seconds. */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+/** Splits on commas that aren't inside parentheses. */
+function splitFields(value: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) fields.push(current.trim());
+  return fields;
+}
+
+function parseBitrate(fields: string[]): number | undefined {
+  for (const field of fields) {
+    const match = field.match(/^(\d+) kb\/s/);
+    if (match) return parseInt(match[1], 10);
+  }
+  return undefined;
+}
+
+function parseStream(line: string): MediaStream | null {
+  const match = line.match(/Stream #0:(\d+)(?:\[[^\]]*\])?(?:\(([^)]+)\))?: (\w+): (.*)$/);
+  if (!match) return null;
+
+  const [, index, language, kind, rest] = match;
+  const type = kind.toLowerCase() as StreamType;
+  const fields = splitFields(rest.replace(/\s*\((?:default|forced|dub|original|comment|lyrics|karaoke|hearing impaired|visual impaired|clean effects|attached pic)\)/g, ""));
+  const codecDetail = fields[0] ?? "";
+
+  const base: BaseStream = {
+    index: parseInt(index, 10),
+    type,
+    codec: codecDetail.split(" ")[0],
+    codecDetail,
+    language: language && language !== "und" ? language : undefined,
+    bitrate: parseBitrate(fields),
+    isDefault: /\(default\)/.test(rest),
+    metadata: {},
+  };
+
+  if (type === "audio") {
+    const stream: AudioStream = { ...base, type: "audio" };
+    const rate = fields[1]?.match(/^(\d+) Hz/);
+    if (rate) stream.sampleRate = parseInt(rate[1], 10);
+    if (fields[2]) {
+      stream.channelLayout = fields[2];
+      stream.channels = channelCountForLayout(fields[2]);
+    }
+    if (fields[3] && !/kb\/s/.test(fields[3])) {
+      stream.sampleFormat = fields[3].split(" ")[0];
+    }
+    return stream;
+  }
+
+  if (type === "video") {
+    const stream: VideoStream = { ...base, type: "video", attachedPicture: /\(attached pic\)/.test(rest) };
+    for (const field of fields) {
+      const size = field.match(/^(\d+)x(\d+)/);
+      if (size && stream.width === undefined) {
+        stream.width = parseInt(size[1], 10);
+        stream.height = parseInt(size[2], 10);
+      }
+      const fps = field.match(/^([\d.]+) fps/);
+      if (fps) stream.fps = parseFloat(fps[1]);
+    }
+    return stream;
+  }
+
+  if (type === "subtitle" || type === "data" || type === "attachment") {
+    return { ...base, type };
+  }
+  return null;
+}
+
+/**
+ * Builds a MediaInfo from the log lines FFmpeg prints for `ffmpeg -i <file>`.
+ * Only the first input is considered.
+ */
+export function parseMediaInfo(logs: string[]): MediaInfo {
+  const info: MediaInfo = {
+    container: "",
+    duration: null,
+    bitrate: null,
+    metadata: {},
+    streams: [],
+    chapters: [],
+  };
+
+  let inInput = false;
+  let metadataTarget: Record<string, string> | null = null;
+  let currentStream: MediaStream | null = null;
+  let currentChapter: Chapter | null = null;
+  let lastKey: string | null = null;
+
+  for (const rawLine of logs) {
+    for (const line of rawLine.split("\n")) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      const input = trimmed.match(/^Input #(\d+), (.+?), from /);
+      if (input) {
+        if (inInput || input[1] !== "0") return info;
+        inInput = true;
+        info.container = input[2];
+        metadataTarget = info.metadata;
+        continue;
+      }
+      if (!inInput) continue;
+      if (/^(Output #|Stream mapping:|At least one output file)/.test(trimmed)) return info;
+
+      if (trimmed.startsWith("Duration:")) {
+        const duration = trimmed.match(/^Duration: ([^,]+)/);
+        const bitrate = trimmed.match(/bitrate: (\d+) kb\/s/);
+        info.duration = duration ? parseTimestamp(duration[1]) : null;
+        info.bitrate = bitrate ? parseInt(bitrate[1], 10) : null;
+        metadataTarget = null;
+        continue;
+      }
+
+      if (trimmed.startsWith("Stream #")) {
+        currentChapter = null;
+        currentStream = parseStream(trimmed);
+        if (currentStream) info.streams.push(currentStream);
+        metadataTarget = currentStream ? currentStream.metadata : null;
+        continue;
+      }
+
+      if (trimmed.startsWith("Chapter #") || trimmed === "Chapters:") {
+        const chapter = trimmed.match(/^Chapter #\d+:\d+: start (-?[\d.]+), end (-?[\d.]+)/);
+        currentStream = null;
+        currentChapter = chapter
+          ? { start: parseFloat(chapter[1]), end: parseFloat(chapter[2]), metadata: {} }
+          : null;
+        if (currentChapter) info.chapters.push(currentChapter);
+        metadataTarget = currentChapter ? currentChapter.metadata : null;
+        continue;
+      }
+
+      if (trimmed === "Metadata:") continue;
+
+      // Multi-line tag values continue on lines that start with ": ".
+      const continuation = trimmed.match(/^: (.*)$/);
+      if (continuation && metadataTarget && lastKey) {
+        metadataTarget[lastKey] += `\n${continuation[1]}`;
+        continue;
+      }
+
+      const tag = trimmed.match(/^([^:]+?)\s*: (.*)$/);
+      if (tag && metadataTarget) {
+        const key = tag[1].toLowerCase();
+        lastKey = key;
+        metadataTarget[key] = key in metadataTarget ? `${metadataTarget[key]}\n${tag[2]}` : tag[2];
+        if (currentStream && metadataTarget === currentStream.metadata) {
+          if (key === "title") currentStream.title = tag[2];
+          if (key === "language" && !currentStream.language && tag[2] !== "und") {
+            currentStream.language = tag[2];
+          }
+        }
+        if (currentChapter && key === "title") {
+          currentChapter.title = tag[2];
+        }
+      }
+    }
+  }
+
+  return info;
+}
+
+export function getAudioStreams(info: MediaInfo): AudioStream[] {
+  return info.streams.filter((stream): stream is AudioStream => stream.type === "audio");
+}
+
+/** True when the file has actual video, not just cover art. */
+export function hasVideo(info: MediaInfo): boolean {
+  return info.streams.some(stream => stream.type === "video" && !stream.attachedPicture);
+}
+
+export function getSubtitleStreams(info: MediaInfo): OtherStream[] {
+  return info.streams.filter((stream): stream is OtherStream => stream.type === "subtitle");
+}
+
+/** Human-readable label for an audio track, e.g. `Track 2 • eng • Commentary • aac 5.1(side)`. */
+export function audioTrackLabel(stream: AudioStream, position: number): string {
+  const parts = [`Track ${position + 1}`];
+  if (stream.language) parts.push(stream.language);
+  if (stream.title) parts.push(stream.title);
+  parts.push([stream.codec, stream.channelLayout].filter(Boolean).join(" "));
+  return parts.join(" • ");
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { AUDIO_FORMATS } from "@/lib/audioFormats";
+import {
+  bitrateToken,
+  renderFileName,
+  sanitizeFileName,
+  uniqueFileName,
+  validateNamingPattern,
+  type NamingValues,
+} from "@/lib/naming";
+
+const mp3 = AUDIO_FORMATS.find(format => format.id === "mp3")!;
+const wav = AUDIO_FORMATS.find(format => format.id === "wav")!;
+
+const values: NamingValues = {
+  name: "Interview",
+  format: "MP3",
+  bitrate: "128k",
+  date: new Date(2024, 4, 31),
+  index: 3,
+  count: 12,
+  title: "Episode 3",
+  duration: 3725,
+};
+
+describe("renderFileName", () => {
+  it("fills in every token", () => {
+    expect(renderFileName("{date} {name} - {index} - {title} ({format} {bitrate}, {duration})", values))
+      .toBe("2024-05-31 Interview - 03 - Episode 3 (MP3 128k, 1h02m05s)");
+  });
+
+  it("drops empty tokens together with their separator", () => {
+    expect(renderFileName("{name} - {bitrate} - {chapter}", { ...values, bitrate: "" })).toBe("Interview");
+    expect(renderFileName("{chapter}_{name} [{bitrate}]", { ...values, bitrate: "" })).toBe("Interview");
+  });
+
+  it("replaces characters that aren't allowed in file names", () => {
+    expect(renderFileName("{title}", { ...values, title: "Q&A: what/why?" })).toBe("Q&A what why");
+  });
+
+  it("falls back to the source name when nothing is left", () => {
+    expect(renderFileName("{chapter}", values)).toBe("Interview");
+  });
+});
+
+describe("sanitizeFileName", () => {
+  it("avoids names Windows reserves or would change", () => {
+    expect(sanitizeFileName("CON")).toBe("CON_");
+    expect(sanitizeFileName("  notes.. ")).toBe("notes");
+  });
+});
+
+describe("uniqueFileName", () => {
+  it("numbers a name in order until it's free, ignoring case", () => {
+    expect(uniqueFileName("Talk.mp3", [])).toBe("Talk.mp3");
+    expect(uniqueFileName("Talk.mp3", ["talk.mp3", "Talk (2).mp3"])).toBe("Talk (3).mp3");
+  });
+});
+
+describe("validateNamingPattern", () => {
+  it("rejects empty patterns and unknown tokens", () => {
+    expect(validateNamingPattern("{name}")).toEqual([]);
+    expect(validateNamingPattern(" ")).toHaveLength(1);
+    expect(validateNamingPattern("{name} {artist}")).toEqual(["{artist} isn't a naming token."]);
+  });
+});
+
+describe("bitrateToken", () => {
+  it("describes the bitrate or VBR quality", () => {
+    expect(bitrateToken(mp3, { ...mp3.defaults!, rateControl: "cbr", bitrate: 192 })).toBe("192k");
+    expect(bitrateToken(mp3, { ...mp3.defaults!, rateControl: "vbr", vbrQuality: 2 })).toBe("V2");
+    expect(bitrateToken(wav, wav.defaults)).toBe("");
+  });
+});
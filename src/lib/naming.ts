@@ -0,0 +1,154 @@
+import type { AudioFormat, EncodingSettings } from "@/lib/audioFormats";
+
+export type NamingToken = "name" | "format" | "bitrate" | "date" | "index" | "chapter" | "title" | "duration";
+
+/** How outputs are named. `{name}` alone keeps the source's own name, which is the default. */
+export interface NamingOptions {
+  /** Pattern with `{token}` placeholders, see `NAMING_TOKENS`. */
+  pattern: string;
+  /** Position of the file in a batch, from 1. */
+  index?: number;
+  /** Number of files in the batch, so `{index}` is padded to the same width. */
+  count?: number;
+  /** Names already given out, e.g. to earlier files of a batch; matching outputs are numbered instead. */
+  taken?: string[];
+  /** Defaults to the time of the conversion. */
+  date?: Date;
+}
+
+/** What the tokens stand for in one output's name. */
+export interface NamingValues {
+  /** Source file name without its extension. */
+  name: string;
+  format: string;
+  /** Short quality, e.g. `128k` or `V2`; empty for lossless formats and copies. */
+  bitrate: string;
+  date: Date;
+  /** Part number when splitting, otherwise the file's position in a batch. */
+  index: number;
+  /** Highest possible `index`, for padding. */
+  count: number;
+  /** Chapter or segment title of a split part. */
+  chapter?: string;
+  /** The Title tag. */
+  title?: string;
+  /** Length of the output in seconds. */
+  duration?: number;
+}
+
+export const DEFAULT_NAMING_PATTERN = "{name}";
+
+export const NAMING_TOKENS: Record<NamingToken, string> = {
+  name: "Source file name",
+  format: "Output format, e.g. MP3",
+  bitrate: "Bitrate or quality, e.g. 128k",
+  date: "Today's date, e.g. 2024-05-31",
+  index: "Part number, or the file's number in a batch",
+  chapter: "Chapter title when splitting",
+  title: "Title tag",
+  duration: "Length, e.g. 3m05s",
+};
+
+const MAX_NAME_LENGTH = 200;
+// Names Windows refuses no matter the extension.
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+}
+
+/** `1h02m03s`, `3m05s` or `45s`; colons aren't allowed in Windows file names. */
+export function formatDurationToken(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) return `${hours}h${pad(minutes, 2)}m${pad(secs, 2)}s`;
+  if (minutes > 0) return `${minutes}m${pad(secs, 2)}s`;
+  return `${secs}s`;
+}
+
+/** The `{bitrate}` of `format` encoded with `settings`. */
+export function bitrateToken(format: AudioFormat, settings?: EncodingSettings): string {
+  const caps = format.capabilities;
+  if (!caps || !settings || caps.rateControl.length === 0) return "";
+  if (settings.rateControl === "vbr" && caps.vbr) {
+    return caps.vbr.lowerIsBetter ? `V${settings.vbrQuality}` : `q${settings.vbrQuality}`;
+  }
+  return `${settings.bitrate}k`;
+}
+
+/** Replaces characters that aren't allowed in file names on common systems, and names Windows reserves. */
+export function sanitizeFileName(name: string): string {
+  const clean = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_NAME_LENGTH)
+    // Windows drops trailing dots and spaces, which would make two names the same.
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+  return RESERVED_NAMES.test(clean) ? `${clean}_` : clean;
+}
+
+export function validateNamingPattern(pattern: string): string[] {
+  if (!pattern.trim()) return ["Enter a file name pattern, e.g. {name}."];
+  const unknown = Array.from(pattern.matchAll(/\{(\w*)\}/g), match => match[1])
+    .filter(token => !Object.hasOwn(NAMING_TOKENS, token));
+  return unknown.length > 0
+    ? [`${unknown.map(token => `{${token}}`).join(", ")} isn't a naming token.`]
+    : [];
+}
+
+/**
+ * True when `pattern` tells split parts apart itself: it numbers them, or
+ * titles them and the part has a `chapter` title to fill in.
+ */
+export function namesParts(pattern: string, chapter?: string): boolean {
+  return pattern.includes("{index}") || (!!chapter && pattern.includes("{chapter}"));
+}
+
+/**
+ * The base name `pattern` gives one output, without the extension. An empty
+ * token takes the separator before it along, so `{name} - {bitrate}` gives
+ * just the name for a WAV file; a name that ends up empty falls back to the
+ * source name.
+ */
+export function renderFileName(pattern: string, values: NamingValues): string {
+  const tokens: Record<NamingToken, string> = {
+    name: values.name,
+    format: values.format,
+    bitrate: values.bitrate,
+    date: formatDate(values.date),
+    index: pad(values.index, Math.max(2, String(values.count).length)),
+    chapter: values.chapter ?? "",
+    title: values.title ?? "",
+    duration: values.duration !== undefined ? formatDurationToken(values.duration) : "",
+  };
+  const rendered = pattern
+    .replace(/(\s*[-_.,]\s*)?\{(\w+)\}/g, (match, separator: string | undefined, token: string) => {
+      if (!Object.hasOwn(tokens, token)) return match;
+      const value = tokens[token as NamingToken];
+      return value ? `${separator ?? ""}${value}` : "";
+    })
+    .replace(/([([])\s+|\s+([)\]])/g, "$1$2")
+    .replace(/\(\)|\[\]/g, "")
+    .replace(/^[\s\-_.,]+/, "");
+  return sanitizeFileName(rendered) || sanitizeFileName(values.name) || "audio";
+}
+
+/**
+ * `name`, or `name (2)`, `name (3)`, … when it's already in `taken`. Names are
+ * compared ignoring case, since Windows and macOS do.
+ */
+export function uniqueFileName(name: string, taken: Iterable<string>): string {
+  const used = new Set(Array.from(taken, other => other.toLowerCase()));
+  if (!used.has(name.toLowerCase())) return name;
+  const [, stem, extension] = name.match(/^(.*?)((?:\.[^./]+)?)$/)!;
+  for (let n = 2; ; n++) {
+    const candidate = `${stem} (${n})${extension}`;
+    if (!used.has(candidate.toLowerCase())) return candidate;
+  }
+}
@@ -0,0 +1,25 @@
+import { getCoreSources } from "@/lib/ffmpegCore";
+
+/**
+ * Registers the service worker that precaches the app and the FFmpeg core.
+ * It's only generated by `npm run build`, so development skips it.
+ */
+export function registerServiceWorker(): void {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch(() => {
+    // Without it the app still works; it just isn't available offline.
+  });
+}
+
+/** True when the core is already in the service worker's cache, so loading it won't touch the network. */
+export async function isCoreStored(): Promise<boolean> {
+  if (typeof caches === "undefined") return false;
+  const [primary] = getCoreSources();
+  if (!primary) return false;
+  try {
+    const url = new URL(`${primary.baseURL}/ffmpeg-core.wasm`, location.href).href;
+    return (await caches.match(url)) !== undefined;
+  } catch {
+    return false;
+  }
+}
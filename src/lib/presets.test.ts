@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CHANNELS } from "@/lib/channels";
+import { defaultFilterChain } from "@/lib/filters";
+import { createFormatRegistry } from "@/lib/formatRegistry";
+import { DEFAULT_LOUDNESS } from "@/lib/loudness";
+import {
+  createPresetStore,
+  exportPresets,
+  presetTags,
+  PRESET_FILE_TYPE,
+  readPresetFile,
+  type PresetSettings,
+} from "@/lib/presets";
+import { EMPTY_TAGS } from "@/lib/tags";
+
+const formats = createFormatRegistry();
+
+const podcast: PresetSettings = {
+  format: "mp3",
+  settings: { rateControl: "cbr", bitrate: 64, vbrQuality: 2, sampleRate: 44100, channels: 1, bitDepth: null },
+  keepOriginal: false,
+  channels: { mode: "mono", channel: "FL" },
+  filters: defaultFilterChain().map(step => (step.id === "highpass" ? { ...step, enabled: true } : step)),
+  loudness: { ...DEFAULT_LOUDNESS, enabled: true },
+  naming: "{name} (podcast)",
+  tags: { artist: "The Show", genre: "Podcast" },
+};
+
+function memoryStorage(): Pick<Storage, "getItem" | "setItem" | "removeItem"> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+function presetFile(presets: unknown[], version = 1): string {
+  return JSON.stringify({ type: PRESET_FILE_TYPE, version, presets });
+}
+
+describe("readPresetFile", () => {
+  it("reads back what was exported", () => {
+    const text = exportPresets([{ id: "local", name: "Podcast 64k mono", settings: podcast }]);
+    expect(readPresetFile(text, formats)).toEqual({
+      presets: [{ name: "Podcast 64k mono", settings: podcast }],
+      errors: [],
+    });
+  });
+
+  it("rejects files that aren't preset files or come from a newer version", () => {
+    expect(readPresetFile("not json", formats).errors).toHaveLength(1);
+    expect(readPresetFile(JSON.stringify({ presets: [] }), formats).errors[0]).toMatch(/isn't a preset file/);
+    expect(readPresetFile(presetFile([{ name: "A", settings: podcast }], 2), formats).errors[0]).toMatch(/newer version/);
+  });
+
+  it("imports nothing when one preset is invalid, naming each problem", () => {
+    const broken = {
+      ...podcast,
+      format: "mp3",
+      settings: { ...podcast.settings, bitrate: 65 },
+      channels: { ...DEFAULT_CHANNELS, mode: "surround" },
+      tags: { title: "Episode 1" },
+    };
+    const { presets, errors } = readPresetFile(presetFile([{ name: "Good", settings: podcast }, { name: "Bad", settings: broken }]), formats);
+    expect(presets).toEqual([]);
+    expect(errors).toEqual([
+      "Bad: 65 kb/s isn't a valid MP3 bitrate.",
+      "Bad: The channel settings are incomplete.",
+      "Bad: \"title\" isn't a tag a preset can set.",
+    ]);
+  });
+
+  it("rejects encoding and loudness settings of the wrong shape", () => {
+    const settings = {
+      ...podcast,
+      settings: { ...podcast.settings, bitrate: "64" },
+      loudness: { ...DEFAULT_LOUDNESS, preset: "loud" },
+    };
+    expect(readPresetFile(presetFile([{ name: "Odd", settings }]), formats).errors).toEqual([
+      "Odd: The MP3 settings are incomplete.",
+      "Odd: The loudness settings are incomplete.",
+    ]);
+  });
+
+  it("rejects unknown formats and filters", () => {
+    const settings = { ...podcast, format: "xyz", filters: [{ id: "reverb", enabled: true, values: {} }] };
+    expect(readPresetFile(presetFile([{ name: "Odd", settings }]), formats).errors).toEqual([
+      "Odd: \"xyz\" isn't an output format this converter has.",
+      "Odd: A filter isn't one this converter has.",
+    ]);
+  });
+});
+
+describe("createPresetStore", () => {
+  it("replaces a preset saved under the same name and keeps its id", () => {
+    const store = createPresetStore(memoryStorage(), formats);
+    const first = store.save("Podcast", podcast);
+    const second = store.save(" Podcast ", { ...podcast, naming: "{name}" });
+    expect(second.id).toBe(first.id);
+    expect(store.list()).toEqual([second]);
+  });
+
+  it("merges imported presets by name and forgets a deleted last-used preset", () => {
+    const store = createPresetStore(memoryStorage(), formats);
+    const editor = store.save("Editor WAV 48k", { ...podcast, format: "wav", settings: undefined });
+    store.add([{ name: "Podcast", settings: podcast }, { name: "Editor WAV 48k", settings: { ...podcast, format: "flac", settings: undefined } }]);
+    expect(store.list().map(preset => [preset.name, preset.settings.format])).toEqual([
+      ["Editor WAV 48k", "flac"],
+      ["Podcast", "mp3"],
+    ]);
+
+    store.setLastUsed(editor.id);
+    store.remove(editor.id);
+    expect(store.getLastUsed()).toBeNull();
+  });
+});
+
+describe("presetTags", () => {
+  it("keeps the tags shared across files", () => {
+    expect(presetTags({ ...EMPTY_TAGS, title: "Episode 1", track: "1", artist: "The Show" })).toEqual({ artist: "The Show" });
+  });
+});
@@ -0,0 +1,290 @@
+import type { EncodingSettings } from "@/lib/audioFormats";
+import type { ChannelMode, ChannelSettings } from "@/lib/channels";
+import type { FormatChoice } from "@/lib/conversionEngine";
+import { validateSettings } from "@/lib/encodingSettings";
+import { FILTER_DEFINITIONS, validateFilterChain, type FilterStep } from "@/lib/filters";
+import type { FormatRegistry } from "@/lib/formatRegistry";
+import { validateLoudness, type LoudnessPresetId, type LoudnessSettings } from "@/lib/loudness";
+import { validateNamingPattern } from "@/lib/naming";
+import { EMPTY_TAGS, validateTags, type AudioTags } from "@/lib/tags";
+
+/** Everything a preset sets. Trim, tracks and subtitles depend on the file, so they're left out. */
+export interface PresetSettings extends FormatChoice {
+  additionalFormats?: FormatChoice[];
+  keepOriginal: boolean;
+  channels: ChannelSettings;
+  filters: FilterStep[];
+  loudness: LoudnessSettings;
+  /** Output name pattern, see `renderFileName`. */
+  naming: string;
+  /** Tags filled in on every file, e.g. the artist and album of a podcast. */
+  tags: Partial<AudioTags>;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+}
+
+/** A preset as it appears in an exported file, without the id of the browser it came from. */
+export type PresetData = Omit<Preset, "id">;
+
+export interface PresetFile {
+  type: typeof PRESET_FILE_TYPE;
+  version: number;
+  presets: PresetData[];
+}
+
+export interface PresetStore {
+  list(): Preset[];
+  /** Saves the current settings, replacing any preset with the same name. */
+  save(name: string, settings: PresetSettings): Preset;
+  remove(id: string): void;
+  /** Adds imported presets; ones whose names already exist replace them. */
+  add(presets: PresetData[]): Preset[];
+  getLastUsed(): string | null;
+  setLastUsed(id: string | null): void;
+}
+
+export const PRESET_FILE_TYPE = "video-audio-converter-presets";
+export const PRESET_FILE_VERSION = 1;
+
+const PRESETS_KEY = "presets";
+const LAST_USED_KEY = "presets.lastUsed";
+const MAX_NAME_LENGTH = 60;
+
+const CHANNEL_MODES: ChannelMode[] = ["keep", "stereo", "mono", "split", "single", "swap"];
+const LOUDNESS_PRESET_IDS: LoudnessPresetId[] = ["podcast", "streaming", "broadcast", "custom"];
+// Title and track number belong to one file, so presets only carry the rest.
+const PRESET_TAG_KEYS: (keyof AudioTags)[] = ["artist", "album", "year", "genre", "comment"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+const isNumberOrNull = (value: unknown) => value === null || isNumber(value);
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function isEncodingSettings(value: unknown): value is EncodingSettings {
+  return (
+    isRecord(value) &&
+    (value.rateControl === "cbr" || value.rateControl === "vbr") &&
+    isNumber(value.bitrate) &&
+    isNumber(value.vbrQuality) &&
+    isNumberOrNull(value.sampleRate) &&
+    isNumberOrNull(value.channels) &&
+    isNumberOrNull(value.bitDepth)
+  );
+}
+
+function isLoudnessSettings(value: unknown): value is LoudnessSettings {
+  return (
+    isRecord(value) &&
+    typeof value.enabled === "boolean" &&
+    LOUDNESS_PRESET_IDS.includes(value.preset as LoudnessPresetId) &&
+    isNumber(value.integrated) &&
+    isNumber(value.truePeak) &&
+    isNumber(value.lra)
+  );
+}
+
+/** The tags a preset keeps from the current ones: the non-empty fields that aren't specific to one file. */
+export function presetTags(tags: AudioTags): Partial<AudioTags> {
+  return Object.fromEntries(PRESET_TAG_KEYS.filter(key => tags[key]).map(key => [key, tags[key]]));
+}
+
+function validateFormatChoice(value: unknown, formats: FormatRegistry): string[] {
+  if (!isRecord(value) || typeof value.format !== "string") {
+    return ["An output format is missing."];
+  }
+  const format = formats.get(value.format);
+  if (!format) {
+    return [`"${value.format}" isn't an output format this converter has.`];
+  }
+  if (value.settings === undefined) return [];
+  if (!isEncodingSettings(value.settings)) {
+    return [`The ${format.name} settings are incomplete.`];
+  }
+  return validateSettings(format, value.settings);
+}
+
+function validateFilters(value: unknown): string[] {
+  if (!Array.isArray(value)) return ["The filters must be a list."];
+  for (const step of value) {
+    const definition = isRecord(step) ? FILTER_DEFINITIONS.find(candidate => candidate.id === step.id) : undefined;
+    if (!definition) return ["A filter isn't one this converter has."];
+    if (typeof step.enabled !== "boolean" || !isRecord(step.values)) return [`The ${definition.name} filter is incomplete.`];
+    const values = step.values;
+    if (definition.params.some(param => !isNumber(values[param.key]))) {
+      return [`The ${definition.name} filter is missing a value.`];
+    }
+  }
+  return validateFilterChain(value as FilterStep[]);
+}
+
+function validateLoudnessSettings(value: unknown): string[] {
+  if (!isLoudnessSettings(value)) {
+    return ["The loudness settings are incomplete."];
+  }
+  return validateLoudness(value);
+}
+
+function validatePresetTags(value: unknown): string[] {
+  if (!isRecord(value)) return ["The tags must be an object."];
+  const unknown = Object.keys(value).find(key => !PRESET_TAG_KEYS.includes(key as keyof AudioTags));
+  if (unknown) return [`"${unknown}" isn't a tag a preset can set.`];
+  if (Object.values(value).some(tag => typeof tag !== "string")) return ["Tags must be text."];
+  return validateTags({ ...EMPTY_TAGS, ...(value as Partial<AudioTags>) });
+}
+
+/** Returns the problems with one preset read from a file or storage, empty when it can be used. */
+export function validatePreset(value: unknown, formats: FormatRegistry): string[] {
+  if (!isRecord(value) || typeof value.name !== "string" || !value.name.trim()) {
+    return ["A preset has no name."];
+  }
+  const name = value.name;
+  const settings = value.settings;
+  if (!isRecord(settings)) {
+    return [`${name}: the settings are missing.`];
+  }
+
+  const errors: string[] = [];
+  errors.push(...validateFormatChoice(settings, formats));
+  if (settings.additionalFormats !== undefined) {
+    if (Array.isArray(settings.additionalFormats)) {
+      settings.additionalFormats.forEach(choice => errors.push(...validateFormatChoice(choice, formats)));
+    } else {
+      errors.push("The additional formats must be a list.");
+    }
+  }
+  if (typeof settings.keepOriginal !== "boolean") {
+    errors.push("Keep original audio must be true or false.");
+  }
+  const channels = settings.channels;
+  if (!isRecord(channels) || !CHANNEL_MODES.includes(channels.mode as ChannelMode) || typeof channels.channel !== "string") {
+    errors.push("The channel settings are incomplete.");
+  }
+  errors.push(...validateFilters(settings.filters));
+  errors.push(...validateLoudnessSettings(settings.loudness));
+  if (typeof settings.naming === "string") {
+    errors.push(...validateNamingPattern(settings.naming));
+  } else {
+    errors.push("The naming pattern is missing.");
+  }
+  errors.push(...validatePresetTags(settings.tags));
+  return errors.map(error => `${name}: ${error}`);
+}
+
+export function validatePresetName(name: string): string[] {
+  if (!name.trim()) return ["Give the preset a name."];
+  if (name.trim().length > MAX_NAME_LENGTH) return [`Preset names can be at most ${MAX_NAME_LENGTH} characters.`];
+  return [];
+}
+
+/** JSON for a file other people can import, without this browser's ids. */
+export function exportPresets(presets: Preset[]): string {
+  const file: PresetFile = {
+    type: PRESET_FILE_TYPE,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported preset file. Nothing is imported when any preset has
+ * problems, so a shared pack arrives complete or not at all.
+ */
+export function readPresetFile(text: string, formats: FormatRegistry): { presets: PresetData[]; errors: string[] } {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { presets: [], errors: ["This isn't a preset file; it doesn't contain valid JSON."] };
+  }
+  if (!isRecord(file) || file.type !== PRESET_FILE_TYPE || !Array.isArray(file.presets)) {
+    return { presets: [], errors: ["This isn't a preset file exported from this converter."] };
+  }
+  if (!isNumber(file.version) || file.version > PRESET_FILE_VERSION) {
+    return { presets: [], errors: ["This preset file was made by a newer version of the converter."] };
+  }
+  const errors = file.presets.flatMap(preset => validatePreset(preset, formats));
+  if (file.presets.length === 0) {
+    errors.push("The file doesn't contain any presets.");
+  }
+  return errors.length > 0
+    ? { presets: [], errors }
+    : { presets: (file.presets as PresetData[]).map(({ name, settings }) => ({ name: name.trim(), settings })), errors };
+}
+
+/** Presets kept in `storage`, stored in the same shape as an exported file. */
+export function createPresetStore(
+  storage: Pick<Storage, "getItem" | "setItem" | "removeItem">,
+  formats: FormatRegistry,
+): PresetStore {
+  const read = (): Preset[] => {
+    try {
+      const file: unknown = JSON.parse(storage.getItem(PRESETS_KEY) ?? "null");
+      if (!isRecord(file) || !Array.isArray(file.presets)) return [];
+      // Presets can stop validating when a format is removed; those are dropped rather than breaking the list.
+      return (file.presets as Preset[]).filter(preset =>
+        isRecord(preset) && typeof preset.id === "string" && validatePreset(preset, formats).length === 0
+      );
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (presets: Preset[]) => {
+    storage.setItem(PRESETS_KEY, JSON.stringify({ type: PRESET_FILE_TYPE, version: PRESET_FILE_VERSION, presets }));
+  };
+
+  const upsert = (presets: Preset[], data: PresetData): Preset => {
+    const existing = presets.findIndex(preset => preset.name === data.name);
+    const preset = { id: existing >= 0 ? presets[existing].id : createId(), ...data };
+    if (existing >= 0) {
+      presets[existing] = preset;
+    } else {
+      presets.push(preset);
+    }
+    return preset;
+  };
+
+  return {
+    list: () => read().sort((a, b) => a.name.localeCompare(b.name)),
+
+    save: (name, settings) => {
+      const presets = read();
+      const preset = upsert(presets, { name: name.trim(), settings });
+      write(presets);
+      return preset;
+    },
+
+    remove: (id) => {
+      write(read().filter(preset => preset.id !== id));
+      if (storage.getItem(LAST_USED_KEY) === id) storage.removeItem(LAST_USED_KEY);
+    },
+
+    add: (imported) => {
+      const presets = read();
+      const added = imported.map(data => upsert(presets, data));
+      write(presets);
+      return added;
+    },
+
+    getLastUsed: () => storage.getItem(LAST_USED_KEY),
+
+    setLastUsed: (id) => {
+      if (id) {
+        storage.setItem(LAST_USED_KEY, id);
+      } else {
+        storage.removeItem(LAST_USED_KEY);
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createProgressTracker, formatSpeed, parseProgressTime } from "@/lib/progress";
+
+describe("parseProgressTime", () => {
+  it("reads the time from FFmpeg's status line", () => {
+    expect(parseProgressTime("size=    1024kB time=00:01:05.22 bitrate= 128.6kbits/s speed=4.21x")).toBeCloseTo(65.22);
+    expect(parseProgressTime("size=N/A time=01:00:00.00 bitrate=N/A speed=  30x")).toBe(3600);
+  });
+
+  it("treats the negative time of a run's first line as the start", () => {
+    expect(parseProgressTime("size=       0kB time=-577014:32:22.77 bitrate=  -0.0kbits/s speed=N/A")).toBe(0);
+  });
+
+  it("ignores other lines", () => {
+    expect(parseProgressTime("Stream mapping:")).toBeNull();
+    expect(parseProgressTime("size=N/A time=N/A bitrate=N/A")).toBeNull();
+  });
+});
+
+describe("createProgressTracker", () => {
+  it("measures speed and time left from the wall clock", () => {
+    let now = 0;
+    const track = createProgressTracker(120, () => now);
+
+    expect(track(0)).toEqual({ progress: 0, speed: null, remaining: null });
+    now = 10000;
+    expect(track(40)).toEqual({ progress: 1 / 3, speed: 4, remaining: 20 });
+  });
+
+  it("waits for a second of work before estimating", () => {
+    let now = 0;
+    const track = createProgressTracker(60, () => now);
+    now = 500;
+    expect(track(5).speed).toBeNull();
+  });
+
+  it("clamps positions past the end", () => {
+    let now = 0;
+    const track = createProgressTracker(60, () => now);
+    now = 2000;
+    expect(track(90)).toMatchObject({ progress: 1, remaining: 0 });
+  });
+});
+
+describe("formatSpeed", () => {
+  it("keeps one decimal below 10x", () => {
+    expect(formatSpeed(4.21)).toBe("4.2x realtime");
+    expect(formatSpeed(31.6)).toBe("32x realtime");
+  });
+});
@@ -0,0 +1,50 @@
+import { parseTimestamp } from "@/lib/mediaInfo";
+
+export interface ProgressUpdate {
+  /** Share of the current phase that's done, between 0 and 1. */
+  progress: number;
+  /** Seconds of media processed per second, once there's enough to measure. */
+  speed: number | null;
+  /** Estimated seconds left in the current phase. */
+  remaining: number | null;
+}
+
+/** Turns a media position into progress for a phase covering `total` seconds of media. */
+export type ProgressTracker = (processed: number) => ProgressUpdate;
+
+/** Wall time before the measured speed is trusted enough to show. */
+const MIN_SPEED_SAMPLE_SECONDS = 1;
+
+/**
+ * Reads the output position, in seconds of media, from the status line FFmpeg
+ * prints while it works, e.g. `size=  1024kB time=00:01:05.22 bitrate=128.6kbits/s speed=4.21x`.
+ */
+export function parseProgressTime(line: string): number | null {
+  const time = line.match(/time=\s*(-?[\d:.]+)/);
+  if (!time) return null;
+  // The first status line of a run can report a hugely negative time.
+  return time[1].startsWith("-") ? 0 : parseTimestamp(time[1]);
+}
+
+/**
+ * Measures speed from the media processed since the tracker was created, so
+ * the estimate covers every run of a phase rather than just the current one.
+ */
+export function createProgressTracker(total: number, now: () => number = Date.now): ProgressTracker {
+  const startedAt = now();
+  return (processed) => {
+    const done = Math.min(total, Math.max(0, processed));
+    const elapsed = (now() - startedAt) / 1000;
+    const speed = elapsed >= MIN_SPEED_SAMPLE_SECONDS && done > 0 ? done / elapsed : null;
+    return {
+      progress: total > 0 ? done / total : 0,
+      speed,
+      remaining: speed ? (total - done) / speed : null,
+    };
+  };
+}
+
+/** e.g. `4.2x realtime`. */
+export function formatSpeed(speed: number): string {
+  return `${speed >= 10 ? Math.round(speed) : speed.toFixed(1)}x realtime`;
+}
@@ -0,0 +1,124 @@
+import type { Chapter } from "@/lib/mediaInfo";
+
+export type SplitMode = "none" | "chapters" | "silence" | "length";
+
+export interface SplitSettings {
+  mode: SplitMode;
+  /** Level below which audio counts as silence, in dB. */
+  silenceThreshold: number;
+  /** Shortest gap, in seconds, that starts a new track. */
+  silenceMinGap: number;
+  /** Part length in seconds for fixed-length splitting. */
+  segmentLength: number;
+}
+
+export interface Segment {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SPLIT: SplitSettings = {
+  mode: "none",
+  silenceThreshold: -40,
+  silenceMinGap: 2,
+  segmentLength: 30 * 60,
+};
+
+/** Segments shorter than this are dropped rather than written as near-empty files. */
+const MIN_SEGMENT_SECONDS = 0.5;
+
+export function validateSplit(settings: SplitSettings, chapters: Chapter[]): string[] {
+  const errors: string[] = [];
+  if (settings.mode === "chapters" && chapters.length === 0) {
+    errors.push("This file has no chapters to split by.");
+  }
+  if (settings.mode === "silence") {
+    if (!(settings.silenceThreshold >= -90 && settings.silenceThreshold <= -10)) {
+      errors.push("Silence threshold must be between -90 and -10 dB.");
+    }
+    if (!(settings.silenceMinGap >= 0.1 && settings.silenceMinGap <= 30)) {
+      errors.push("Minimum gap must be between 0.1 and 30 seconds.");
+    }
+  }
+  if (settings.mode === "length" && !(settings.segmentLength >= 1)) {
+    errors.push("Part length must be at least 1 second.");
+  }
+  return errors;
+}
+
+/** Restricts `segments` to `[start, end]`, dropping any that fall outside it. */
+export function clipSegments(segments: Segment[], start: number, end: number): Segment[] {
+  return segments
+    .map(segment => ({ ...segment, start: Math.max(segment.start, start), end: Math.min(segment.end, end) }))
+    .filter(segment => segment.end - segment.start >= MIN_SEGMENT_SECONDS);
+}
+
+export function chapterSegments(chapters: Chapter[]): Segment[] {
+  return chapters.map(chapter => ({ start: chapter.start, end: chapter.end, title: chapter.title }));
+}
+
+export function fixedLengthSegments(start: number, end: number, length: number): Segment[] {
+  const segments: Segment[] = [];
+  for (let from = start; from < end; from += length) {
+    segments.push({ start: from, end: Math.min(from + length, end) });
+  }
+  return clipSegments(segments, start, end);
+}
+
+export function silenceDetectFilter(settings: SplitSettings): string {
+  return `silencedetect=noise=${settings.silenceThreshold}dB:d=${settings.silenceMinGap}`;
+}
+
+/**
+ * Reads `silence_start` / `silence_end` pairs from silencedetect's log output.
+ * A silence still running when the audio stops is closed at `end`, when given.
+ */
+export function parseSilenceDetect(logs: string[], end?: number): SilenceInterval[] {
+  const intervals: SilenceInterval[] = [];
+  let start: number | null = null;
+  for (const line of logs) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end: (-?[\d.]+)/);
+    if (endMatch && start !== null) {
+      intervals.push({ start, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+  if (start !== null && end !== undefined) {
+    intervals.push({ start, end });
+  }
+  return intervals;
+}
+
+/**
+ * Cuts `[start, end]` in the middle of each silence, so no audio is lost and
+ * each track keeps a little of the pause on either side.
+ */
+export function silenceSegments(silences: SilenceInterval[], start: number, end: number): Segment[] {
+  const cuts = silences
+    .map(silence => (silence.start + silence.end) / 2)
+    .filter(cut => cut > start && cut < end);
+  const bounds = [start, ...cuts, end];
+  return clipSegments(
+    bounds.slice(0, -1).map((from, i) => ({ start: from, end: bounds[i + 1] })),
+    start,
+    end,
+  );
+}
+
+/** File name for part `index` (zero-based) of `count`, e.g. `Concert - 03 - Encore.mp3`. */
+export function segmentFileName(baseName: string, index: number, count: number, extension: string, title?: string): string {
+  const number = String(index + 1).padStart(Math.max(2, String(count).length), "0");
+  const cleanTitle = title?.replace(/[\\/:*?"<>|]+/g, " ").trim();
+  return `${baseName} - ${number}${cleanTitle ? ` - ${cleanTitle}` : ""}.${extension}`;
+}
@@ -0,0 +1,36 @@
+export interface CopyTarget {
+  extension: string;
+  mimeType: string;
+  container: string;
+}
+
+const COPY_TARGETS: Record<string, CopyTarget> = {
+  aac: { extension: "m4a", mimeType: "audio/mp4", container: "M4A" },
+  alac: { extension: "m4a", mimeType: "audio/mp4", container: "M4A" },
+  mp3: { extension: "mp3", mimeType: "audio/mpeg", container: "MP3" },
+  opus: { extension: "opus", mimeType: "audio/ogg", container: "Opus" },
+  vorbis: { extension: "ogg", mimeType: "audio/ogg", container: "OGG" },
+  flac: { extension: "flac", mimeType: "audio/flac", container: "FLAC" },
+  ac3: { extension: "ac3", mimeType: "audio/ac3", container: "AC3" },
+  eac3: { extension: "eac3", mimeType: "audio/eac3", container: "E-AC3" },
+  pcm_s16le: { extension: "wav", mimeType: "audio/wav", container: "WAV" },
+  pcm_s24le: { extension: "wav", mimeType: "audio/wav", container: "WAV" },
+  pcm_s32le: { extension: "wav", mimeType: "audio/wav", container: "WAV" },
+  pcm_f32le: { extension: "wav", mimeType: "audio/wav", container: "WAV" },
+  pcm_u8: { extension: "wav", mimeType: "audio/wav", container: "WAV" },
+};
+
+/** Matroska takes nearly any codec, so it's the catch-all container. */
+const MATROSKA_TARGET: CopyTarget = { extension: "mka", mimeType: "audio/x-matroska", container: "MKA" };
+
+/** Codecs no audio-only container will accept as-is. */
+const UNCOPYABLE_CODECS = new Set(["pcm_dvd", "pcm_bluray", "none"]);
+
+/**
+ * Picks the container a stream with `codec` can be copied into without
+ * re-encoding, or null when it has to be encoded instead.
+ */
+export function getCopyTarget(codec: string | undefined): CopyTarget | null {
+  if (!codec || UNCOPYABLE_CODECS.has(codec)) return null;
+  return COPY_TARGETS[codec] ?? MATROSKA_TARGET;
+}
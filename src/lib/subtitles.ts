@@ -0,0 +1,64 @@
+import type { OtherStream } from "@/lib/mediaInfo";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export interface SubtitleFormatInfo {
+  name: string;
+  extension: string;
+  /** FFmpeg encoder that writes it. */
+  codec: string;
+  mimeType: string;
+}
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, SubtitleFormatInfo> = {
+  srt: { name: "SRT", extension: "srt", codec: "srt", mimeType: "application/x-subrip" },
+  vtt: { name: "WebVTT", extension: "vtt", codec: "webvtt", mimeType: "text/vtt" },
+};
+
+export interface SubtitleExport {
+  /** Absolute indices of the subtitle streams to export. */
+  streams: number[];
+  format: SubtitleFormat;
+}
+
+// Decoders that produce text. Bitmap subtitles (PGS, VobSub, DVB) would need OCR.
+const TEXT_CODECS = new Set([
+  "subrip",
+  "srt",
+  "ass",
+  "ssa",
+  "webvtt",
+  "mov_text",
+  "text",
+  "microdvd",
+  "mpl2",
+  "pjs",
+  "realtext",
+  "sami",
+  "stl",
+  "subviewer",
+  "subviewer1",
+  "vplayer",
+  "jacosub",
+]);
+
+export function isTextSubtitle(stream: OtherStream): boolean {
+  return TEXT_CODECS.has(stream.codec);
+}
+
+/** Human-readable label for a subtitle track, e.g. `Subtitle 2 • eng • SDH • subrip`. */
+export function subtitleTrackLabel(stream: OtherStream, position: number): string {
+  const parts = [`Subtitle ${position + 1}`];
+  if (stream.language) parts.push(stream.language);
+  if (stream.title) parts.push(stream.title);
+  parts.push(stream.codec);
+  return parts.join(" • ");
+}
+
+/** `Movie.eng.srt`, numbered when several tracks are exported so they can't collide. */
+export function subtitleFileName(baseName: string, stream: OtherStream, position: number, count: number, format: SubtitleFormat): string {
+  const parts = [baseName];
+  if (count > 1) parts.push(String(position + 1));
+  if (stream.language) parts.push(stream.language);
+  return `${parts.join(".")}.${SUBTITLE_FORMATS[format].extension}`;
+}
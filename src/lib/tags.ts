@@ -0,0 +1,72 @@
+export interface AudioTags {
+  title: string;
+  artist: string;
+  album: string;
+  year: string;
+  track: string;
+  genre: string;
+  comment: string;
+}
+
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: "image/jpeg" | "image/png";
+  url: string;
+}
+
+export const EMPTY_TAGS: AudioTags = {
+  title: "",
+  artist: "",
+  album: "",
+  year: "",
+  track: "",
+  genre: "",
+  comment: "",
+};
+
+/** FFmpeg's generic metadata keys; each muxer maps them to ID3v2 frames, MP4 atoms or Vorbis comments. */
+const TAG_KEYS: Record<keyof AudioTags, string> = {
+  title: "title",
+  artist: "artist",
+  album: "album",
+  year: "date",
+  track: "track",
+  genre: "genre",
+  comment: "comment",
+};
+
+/** Pre-fills tags from the source container's metadata. */
+export function tagsFromMetadata(metadata: Record<string, string>): AudioTags {
+  return {
+    title: metadata.title ?? "",
+    artist: metadata.artist ?? metadata.album_artist ?? "",
+    album: metadata.album ?? "",
+    year: (metadata.date ?? metadata.year ?? "").slice(0, 10),
+    track: metadata.track ?? "",
+    genre: metadata.genre ?? "",
+    comment: metadata.comment ?? metadata.description ?? "",
+  };
+}
+
+export function validateTags(tags: AudioTags): string[] {
+  const errors: string[] = [];
+  if (tags.year && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(tags.year)) {
+    errors.push("Year must look like 2024 or 2024-05-31.");
+  }
+  if (tags.track && !/^\d+(\/\d+)?$/.test(tags.track)) {
+    errors.push("Track must be a number, optionally with a total (3/12).");
+  }
+  return errors;
+}
+
+/**
+ * `-metadata` options for every tag. Empty values are passed through as well,
+ * which removes a tag the source had when the user clears the field.
+ */
+export function buildTagArgs(tags: AudioTags): string[] {
+  const args: string[] = [];
+  for (const field of Object.keys(TAG_KEYS) as (keyof AudioTags)[]) {
+    args.push("-metadata", `${TAG_KEYS[field]}=${tags[field].trim()}`);
+  }
+  return args;
+}
@@ -0,0 +1,93 @@
+export interface TrimSettings {
+  enabled: boolean;
+  /** Selection start in seconds. */
+  start: number;
+  /** Selection end in seconds. */
+  end: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export const DEFAULT_TRIM: TrimSettings = { enabled: false, start: 0, end: 0, fadeIn: 0, fadeOut: 0 };
+
+/** Formats seconds as `H:MM:SS.mmm`. */
+export function formatTimestamp(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toFixed(3).padStart(6, "0");
+  return `${hrs}:${mins.toString().padStart(2, "0")}:${secs}`;
+}
+
+/** Parses `H:MM:SS.mmm`, `MM:SS.mmm` or plain seconds; null when invalid. */
+export function parseTimeInput(value: string): number | null {
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+export function validateTrim(trim: TrimSettings, duration: number | null): string[] {
+  if (!trim.enabled) return [];
+  const errors: string[] = [];
+  if (trim.start < 0 || trim.end <= trim.start) {
+    errors.push("The end of the selection must come after its start.");
+  }
+  if (duration !== null && trim.end > duration + 0.001) {
+    errors.push("The selection ends after the end of the file.");
+  }
+  if (trim.fadeIn < 0 || trim.fadeOut < 0 || trim.fadeIn + trim.fadeOut > trim.end - trim.start) {
+    errors.push("Fades can't be longer than the selection.");
+  }
+  return errors;
+}
+
+/**
+ * Input options for the selection. Accurate trims are cut by `atrim` instead
+ * (see trimFilters), so they get none; otherwise the input is seeked, which is
+ * much faster and lands as close as the codec's frame size allows.
+ */
+export function trimInputArgs(trim: TrimSettings, accurate: boolean): string[] {
+  if (!trim.enabled || accurate) return [];
+  return ["-ss", trim.start.toFixed(3), "-t", (trim.end - trim.start).toFixed(3)];
+}
+
+/** Audio filters for the selection: a sample-accurate `atrim` when requested, then the fades. */
+export function trimFilters(trim: TrimSettings, accurate: boolean): string[] {
+  if (!trim.enabled) return [];
+  const filters: string[] = [];
+  const length = trim.end - trim.start;
+  if (accurate) {
+    filters.push(`atrim=start=${trim.start}:end=${trim.end}`, "asetpts=PTS-STARTPTS");
+  }
+  if (trim.fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${trim.fadeIn}`);
+  }
+  if (trim.fadeOut > 0) {
+    filters.push(`afade=t=out:st=${(length - trim.fadeOut).toFixed(3)}:d=${trim.fadeOut}`);
+  }
+  return filters;
+}
+
+/** Sample rate for the waveform decode, keeping long files to ~2M samples. */
+export function waveformSampleRate(duration: number): number {
+  return Math.min(8000, Math.max(100, Math.floor(2_000_000 / Math.max(duration, 1))));
+}
+
+/** Reduces signed 16-bit PCM to `buckets` peak values between 0 and 1. */
+export function computePeaks(pcm: Int16Array, buckets: number): number[] {
+  const peaks = new Array<number>(buckets).fill(0);
+  if (pcm.length === 0) return peaks;
+
+  const size = pcm.length / buckets;
+  let max = 0;
+  for (let i = 0; i < buckets; i++) {
+    let peak = 0;
+    const end = Math.min(pcm.length, Math.floor((i + 1) * size));
+    for (let j = Math.floor(i * size); j < end; j++) {
+      const value = Math.abs(pcm[j]);
+      if (value > peak) peak = value;
+    }
+    peaks[i] = peak;
+    if (peak > max) max = peak;
+  }
+  return max > 0 ? peaks.map(peak => peak / max) : peaks;
+}
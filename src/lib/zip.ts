@@ -0,0 +1,35 @@
+import { zip } from "fflate";
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+  let n = 2;
+  while (taken.has(`${base} (${n})${ext}`)) n++;
+  return `${base} (${n})${ext}`;
+}
+
+/**
+ * Packs the entries into a ZIP archive in the browser. Audio is already
+ * compressed, so entries are stored rather than deflated.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const taken = new Set<string>();
+  const files: Record<string, Uint8Array> = {};
+  for (const entry of entries) {
+    const name = uniqueName(entry.name, taken);
+    taken.add(name);
+    files[name] = new Uint8Array(await entry.data.arrayBuffer());
+  }
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+  return new Blob([archive as BlobPart], { type: "application/zip" });
+}
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+      // The package's "node" export is an empty stub; the engine only needs its
+      // types and constants there, since tests pass in a fake FFmpeg.
+      "@ffmpeg/ffmpeg": fileURLToPath(new URL("./node_modules/@ffmpeg/ffmpeg/dist/esm/index.js", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+  },
+});